@@ -6,12 +6,19 @@ import cors from 'cors';
 import helmet from 'helmet';
 import morgan from 'morgan';
 import { db } from './services/database';
+import { PopularityService } from './services/popularityService';
+import { ImpressionService } from './services/impressionService';
 import { generalLimiter } from './middleware/rateLimit';
 import { metricsMiddleware } from './middleware/metrics';
 import { register } from './services/metrics';
 import AuthRoute from "./routes/auth"
+import ContactsRoute from "./routes/contacts"
 import EnrichmentRoute from "./routes/enrichment"
+import ExperimentsRoute from "./routes/experiments"
+import InteractionsRoute from "./routes/interactions"
 import MoviesRoute from "./routes/movies"
+import MovieNightsRoute from "./routes/movieNights"
+import OnboardingRoute from "./routes/onboarding"
 import RatingsRoute from "./routes/ratings"
 import RecommendationsRoute from "./routes/recommendations"
 import TMDBRoute from "./routes/tmdb"
@@ -56,13 +63,18 @@ app.get('/metrics', async (req: Request, res: Response) => {
 app.use('/api/auth', AuthRoute);
 app.use('/api/movies', MoviesRoute);
 app.use('/api/ratings', RatingsRoute);
+app.use('/api/onboarding', OnboardingRoute);
 app.use('/api/recommendations',RecommendationsRoute);
 app.use('/api/watchlist', WatchlistRoute);
+app.use('/api/movie-nights', MovieNightsRoute);
+app.use('/api/contacts', ContactsRoute);
 app.use('/api/tmdb', TMDBRoute);
 app.use('/api/enrichment', EnrichmentRoute);
+app.use('/api/experiments', ExperimentsRoute);
+app.use('/api/interactions', InteractionsRoute);
 
 // Error handling middleware
-app.use((err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
+app.use((err: Error, req: express.Request, res: express.Response, _next: express.NextFunction) => {
   console.error(err.stack);
   res.status(500).json({ success: false, error: 'Something went wrong!' });
 });
@@ -77,6 +89,10 @@ const startServer = async (): Promise<void> => {
   try {
     await db.connect();
     console.log('Database connected');
+
+    // Trending decays over time, so scores are recomputed even without new activity
+    PopularityService.scheduleRefresh(Number(process.env.POPULARITY_REFRESH_MINUTES || 30) * 60 * 1000);
+    ImpressionService.scheduleMetrics(Number(process.env.RECOMMENDATION_QUALITY_REFRESH_MINUTES || 5) * 60 * 1000);
     
     app.listen(PORT, () => {
       console.log(`Server is running on port ${PORT}`);
@@ -0,0 +1,144 @@
+import { Response } from 'express';
+import { db } from '../services/database';
+import { ApiResponse, AuthRequest, Contact } from '../types';
+
+export const requestContact = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const user = req.user;
+    if (!user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    const { user: identifier } = req.body as { user: string };
+    if (identifier === user.id || identifier === user.username) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'You cannot add yourself as a contact',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    // Same answer whether or not the user exists, so usernames cannot be probed
+    const addressee = await db.getUserById(identifier) || await db.getUserByUsername(identifier);
+    if (addressee) {
+      await db.requestContact(user.id, addressee.id);
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Contact request sent if the user exists',
+    };
+    res.status(202).json(response);
+  } catch (error) {
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to send contact request',
+    };
+    res.status(500).json(response);
+  }
+};
+
+export const getContacts = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const user = req.user;
+    if (!user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    const contacts = await db.getUserContacts(user.id);
+    const response: ApiResponse<Contact[]> = {
+      success: true,
+      data: contacts,
+    };
+    res.json(response);
+  } catch (error) {
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to fetch contacts',
+    };
+    res.status(500).json(response);
+  }
+};
+
+export const acceptContact = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const user = req.user;
+    if (!user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    const accepted = await db.acceptContact(req.params.id, user.id);
+    if (!accepted) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Contact request not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Contact request accepted',
+    };
+    res.json(response);
+  } catch (error) {
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to accept contact request',
+    };
+    res.status(500).json(response);
+  }
+};
+
+export const removeContact = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const user = req.user;
+    if (!user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    const removed = await db.removeContact(req.params.id, user.id);
+    if (!removed) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Contact not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Contact removed',
+    };
+    res.json(response);
+  } catch (error) {
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to remove contact',
+    };
+    res.status(500).json(response);
+  }
+};
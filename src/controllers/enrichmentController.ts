@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import { movieEnrichmentService } from '../services/movieEnrichmentService';
-import { ApiResponse, Movie, AuthRequest } from '../types';
+import { ImpressionService } from '../services/impressionService';
+import { ApiResponse, Movie, AuthRequest, RecommendationListResponse } from '../types';
 
 export const enrichMovie = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
@@ -53,7 +54,7 @@ export const enrichAllMovies = async (req: AuthRequest, res: Response): Promise<
   }
 };
 
-export const getMovieRecommendations = async (req: Request, res: Response): Promise<void> => {
+export const getMovieRecommendations = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const { movieId } = req.params;
     const limit = parseInt(req.query.limit as string) || 5;
@@ -68,11 +69,13 @@ export const getMovieRecommendations = async (req: Request, res: Response): Prom
     }
 
     const recommendations = await movieEnrichmentService.getMovieRecommendations(movieId, limit);
+    const listId = await ImpressionService.log('tmdb_recommendations', recommendations.map(movie => movie.id), req.user?.id);
 
-    const response: ApiResponse<Movie[]> = {
+    const response: RecommendationListResponse<Movie> = {
       success: true,
       data: recommendations,
       message: `Found ${recommendations.length} recommendations`,
+      listId,
     };
     res.json(response);
   } catch (error) {
@@ -85,7 +88,7 @@ export const getMovieRecommendations = async (req: Request, res: Response): Prom
   }
 };
 
-export const getSimilarMovies = async (req: Request, res: Response): Promise<void> => {
+export const getSimilarMovies = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const { movieId } = req.params;
     const limit = parseInt(req.query.limit as string) || 5;
@@ -100,11 +103,13 @@ export const getSimilarMovies = async (req: Request, res: Response): Promise<voi
     }
 
     const similarMovies = await movieEnrichmentService.getSimilarMovies(movieId, limit);
+    const listId = await ImpressionService.log('tmdb_similar', similarMovies.map(movie => movie.id), req.user?.id);
 
-    const response: ApiResponse<Movie[]> = {
+    const response: RecommendationListResponse<Movie> = {
       success: true,
       data: similarMovies,
       message: `Found ${similarMovies.length} similar movies`,
+      listId,
     };
     res.json(response);
   } catch (error) {
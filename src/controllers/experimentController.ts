@@ -0,0 +1,71 @@
+import { Response } from 'express';
+import { experimentService } from '../services/experimentService';
+import { banditService } from '../services/banditService';
+import { ApiResponse, AuthRequest, BanditArmSummary, BanditPolicy, Experiment, ExperimentVariantSummary } from '../types';
+
+export const getExperiments = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const experiments = experimentService.getExperiments();
+
+    const response: ApiResponse<Experiment[]> = {
+      success: true,
+      data: experiments,
+    };
+    res.json(response);
+  } catch (error) {
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to fetch experiments',
+    };
+    res.status(500).json(response);
+  }
+};
+
+export const getExperimentSummary = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { name } = req.params;
+    const experiment = experimentService.getExperiment(name);
+    if (!experiment) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Experiment not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const summary = await experimentService.getSummary(name);
+
+    const response: ApiResponse<{ experiment: Experiment; variants: ExperimentVariantSummary[] }> = {
+      success: true,
+      data: { experiment, variants: summary },
+    };
+    res.json(response);
+  } catch (error) {
+    console.error('Experiment summary error:', error);
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to summarize experiment',
+    };
+    res.status(500).json(response);
+  }
+};
+
+export const getBanditSummary = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const summary = await banditService.getSummary(req.query.userId as string | undefined);
+
+    const response: ApiResponse<{ policy: BanditPolicy; arms: BanditArmSummary[] }> = {
+      success: true,
+      data: summary,
+    };
+    res.json(response);
+  } catch (error) {
+    console.error('Bandit summary error:', error);
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to summarize bandit',
+    };
+    res.status(500).json(response);
+  }
+};
@@ -0,0 +1,127 @@
+import { Response } from 'express';
+import { db } from '../services/database';
+import { RecommendationStore } from '../services/recommendationStore';
+import { banditService } from '../services/banditService';
+import { ApiResponse, AuthRequest, RecommendationFeedback } from '../types';
+
+const DEFAULT_SNOOZE_DAYS = 30;
+
+export const createFeedback = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const user = req.user;
+    if (!user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    const { type, movieId, genre, director, days = DEFAULT_SNOOZE_DAYS } = req.body;
+
+    if (movieId) {
+      const movie = await db.getMovieById(movieId);
+      if (!movie) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Movie not found',
+        };
+        res.status(404).json(response);
+        return;
+      }
+    }
+
+    const feedback = await db.createRecommendationFeedback({
+      userId: user.id,
+      type,
+      movieId: type === 'not_interested' ? undefined : movieId,
+      genre: type === 'not_interested' ? genre : undefined,
+      director: type === 'not_interested' ? director : undefined,
+      snoozedUntil: type === 'snooze'
+        ? new Date(Date.now() + days * 24 * 60 * 60 * 1000)
+        : undefined,
+    });
+    RecommendationStore.invalidate(user.id);
+    if (type === 'dismiss') {
+      banditService.reward(user.id, movieId, 'dismiss');
+    }
+
+    const response: ApiResponse<RecommendationFeedback> = {
+      success: true,
+      data: feedback,
+      message: 'Feedback recorded',
+    };
+    res.status(201).json(response);
+  } catch (error) {
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to record feedback',
+    };
+    res.status(500).json(response);
+  }
+};
+
+export const getUserFeedback = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const user = req.user;
+    if (!user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    const feedback = await db.getUserFeedback(user.id);
+    const response: ApiResponse<RecommendationFeedback[]> = {
+      success: true,
+      data: feedback,
+    };
+    res.json(response);
+  } catch (error) {
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to fetch feedback',
+    };
+    res.status(500).json(response);
+  }
+};
+
+export const deleteFeedback = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const user = req.user;
+    if (!user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    const deleted = await db.deleteRecommendationFeedback(user.id, req.params.id);
+    if (!deleted) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Feedback not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+    RecommendationStore.invalidate(user.id);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Feedback removed',
+    };
+    res.json(response);
+  } catch (error) {
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to remove feedback',
+    };
+    res.status(500).json(response);
+  }
+};
@@ -0,0 +1,52 @@
+import { Response } from 'express';
+import { ImpressionService } from '../services/impressionService';
+import { ApiResponse, AuthRequest, RecommendationImpression, RecommendationQuality } from '../types';
+
+export const recordRecommendationClick = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { listId, movieId, type = 'click' } = req.body;
+
+    const impression = await ImpressionService.record(listId, movieId, type, req.user?.id);
+    if (!impression) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Movie not found in this recommendation list',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const response: ApiResponse<RecommendationImpression> = {
+      success: true,
+      data: impression,
+      message: type === 'click' ? 'Click recorded' : 'Conversion recorded',
+    };
+    res.json(response);
+  } catch (error) {
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to record click',
+    };
+    res.status(500).json(response);
+  }
+};
+
+export const getQualityReport = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const days = req.query.days !== undefined ? Number(req.query.days) : undefined;
+    const report = await ImpressionService.getReport(days);
+
+    const response: ApiResponse<RecommendationQuality[]> = {
+      success: true,
+      data: report,
+    };
+    res.json(response);
+  } catch (error) {
+    console.error('Recommendation quality report error:', error);
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to build recommendation quality report',
+    };
+    res.status(500).json(response);
+  }
+};
@@ -0,0 +1,85 @@
+import { Response } from 'express';
+import { db } from '../services/database';
+import { RecommendationStore } from '../services/recommendationStore';
+import { ApiResponse, AuthRequest, InteractionEvent } from '../types';
+
+const DEFAULT_INTERACTIONS_LIMIT = 50;
+
+export const recordInteractions = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const user = req.user;
+    if (!user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    const events: Array<{ type: 'view' | 'search_click'; movieId: string; query?: string; occurredAt?: string }> =
+      req.body.events;
+
+    // Events for unknown movies are skipped rather than failing the whole batch
+    const movies = await db.getMoviesByIds(Array.from(new Set(events.map(event => event.movieId))));
+    const known = new Set(movies.map(movie => movie.id));
+    const now = new Date();
+    const accepted = events
+      .filter(event => known.has(event.movieId))
+      .map(event => ({
+        userId: user.id,
+        movieId: event.movieId,
+        type: event.type,
+        query: event.type === 'search_click' ? event.query : undefined,
+        // Clients may send buffered events; none are dated in the future
+        createdAt: event.occurredAt && new Date(event.occurredAt) < now ? new Date(event.occurredAt) : now,
+      }));
+
+    const recorded = accepted.length > 0 ? await db.createInteractionEvents(accepted) : 0;
+    if (recorded > 0) {
+      RecommendationStore.onUserInteractions(user.id, recorded);
+    }
+
+    const response: ApiResponse<{ recorded: number; skipped: number }> = {
+      success: true,
+      data: { recorded, skipped: events.length - accepted.length },
+      message: `Recorded ${recorded} interaction${recorded === 1 ? '' : 's'}`,
+    };
+    res.status(201).json(response);
+  } catch (error) {
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to record interactions',
+    };
+    res.status(500).json(response);
+  }
+};
+
+export const getUserInteractions = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const user = req.user;
+    if (!user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    const limit = Number(req.query.limit) || DEFAULT_INTERACTIONS_LIMIT;
+    const interactions = await db.getUserInteractions(user.id, undefined, limit);
+
+    const response: ApiResponse<InteractionEvent[]> = {
+      success: true,
+      data: interactions,
+    };
+    res.json(response);
+  } catch (error) {
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to fetch interactions',
+    };
+    res.status(500).json(response);
+  }
+};
@@ -1,6 +1,70 @@
 import { Request, Response } from 'express';
 import { db } from '../services/database';
-import { ApiResponse, Movie, PaginatedResponse, AuthRequest } from '../types';
+import { TextSimilarityService } from '../services/textSimilarityService';
+import { embeddingService } from '../services/embeddingService';
+import { PopularityService } from '../services/popularityService';
+import { ExplanationBuilder } from '../services/explanationBuilder';
+import { RatingPredictor } from '../services/ratingPredictor';
+import {
+  ApiResponse,
+  Movie,
+  MovieScore,
+  PaginatedResponse,
+  AuthRequest,
+  Recommendation,
+  RatingPrediction,
+} from '../types';
+
+interface ScoredMovie {
+  movie: Movie;
+  score: number;
+  bayesianRating: number;
+  ratingCount: number;
+  watchlistCount: number;
+}
+
+// Signed-in users' predicted ratings, or null. Predictions are an extra: when the
+// predictor fails the movies are still returned, just without them.
+const predictionsFor = async (
+  userId: string | undefined,
+  movies: Movie[]
+): Promise<Map<string, RatingPrediction> | null> => {
+  if (!userId) return null;
+  try {
+    return await RatingPredictor.predictForUser(userId, movies);
+  } catch (error) {
+    console.error('Rating prediction error:', error);
+    return null;
+  }
+};
+
+// Movies ranked by one of the internally computed scores
+const rankByScore = async (
+  key: keyof Pick<MovieScore, 'popularity' | 'trending'>,
+  limit: number
+): Promise<ScoredMovie[]> => {
+  const scores = Array.from((await PopularityService.getScores()).values())
+    .filter(score => score[key] > 0)
+    .sort((a, b) => b[key] - a[key])
+    .slice(0, limit);
+
+  const movies = await db.getMoviesByIds(scores.map(score => score.movieId));
+  const moviesById = new Map(movies.map(movie => [movie.id, movie]));
+
+  const ranked: ScoredMovie[] = [];
+  for (const score of scores) {
+    const movie = moviesById.get(score.movieId);
+    if (!movie) continue;
+    ranked.push({
+      movie,
+      score: score[key],
+      bayesianRating: score.bayesianRating,
+      ratingCount: score.ratingCount,
+      watchlistCount: score.watchlistCount,
+    });
+  }
+  return ranked;
+};
 
 export const getAllMovies = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -31,7 +95,7 @@ export const getAllMovies = async (req: Request, res: Response): Promise<void> =
   }
 };
 
-export const getMovieById = async (req: Request, res: Response): Promise<void> => {
+export const getMovieById = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
     const movie = await db.getMovieById(id);
@@ -45,9 +109,12 @@ export const getMovieById = async (req: Request, res: Response): Promise<void> =
       return;
     }
 
-    const response: ApiResponse<Movie> = {
+    // Signed-in users also see how much they are expected to like it
+    const predictions = await predictionsFor(req.user?.id, [movie]);
+
+    const response: ApiResponse<Movie & { prediction?: RatingPrediction }> = {
       success: true,
-      data: movie,
+      data: predictions ? { ...movie, prediction: predictions.get(movie.id) } : movie,
     };
     res.json(response);
   } catch (error) {
@@ -59,10 +126,147 @@ export const getMovieById = async (req: Request, res: Response): Promise<void> =
   }
 };
 
+export const getSimilarMovies = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const limit = Number(req.query.limit) || 10;
+
+    const movie = await db.getMovieById(id);
+    if (!movie) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Movie not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    // Movies created before text vectors existed are indexed on first request
+    let index = await TextSimilarityService.getIndex();
+    if (!index.has(movie.id)) {
+      await TextSimilarityService.refreshMovie(movie);
+      index = await TextSimilarityService.getIndex();
+    }
+
+    const matches = TextSimilarityService.findSimilar(index, movie.id, limit);
+    const matchedMovies = await db.getMoviesByIds(matches.map(match => match.movieId));
+    const moviesById = new Map(matchedMovies.map(matched => [matched.id, matched]));
+
+    const similar: Recommendation[] = [];
+    for (const match of matches) {
+      const similarMovie = moviesById.get(match.movieId);
+      if (!similarMovie) continue;
+
+      const sharedActors = (similarMovie.actors || []).filter(actor =>
+        (movie.actors || []).some(a => a.toLowerCase() === actor.toLowerCase())
+      );
+      const matchedDirector = ExplanationBuilder.matchedDirector(similarMovie, [movie]);
+      const shared = [
+        matchedDirector ? `director ${matchedDirector}` : null,
+        sharedActors.length > 0 ? `cast (${sharedActors.slice(0, 2).join(', ')})` : null,
+        match.keywords.length > 0 ? `themes (${match.keywords.slice(0, 3).join(', ')})` : null,
+      ].filter(Boolean);
+
+      similar.push({
+        movie: similarMovie,
+        score: match.score,
+        reason: `Shares ${shared.join(' and ')} with ${movie.title}`,
+        explanation: ExplanationBuilder.create('text', 'text', match.score, {
+          seedMovies: [ExplanationBuilder.seed(movie)],
+          matchedGenres: ExplanationBuilder.matchedGenres(similarMovie, [movie]),
+          matchedDirector,
+        }),
+      });
+    }
+
+    const response: ApiResponse<Recommendation[]> = {
+      success: true,
+      data: similar,
+      message: `Found ${similar.length} movies similar to ${movie.title}`,
+    };
+    res.json(response);
+  } catch (error) {
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to find similar movies',
+    };
+    res.status(500).json(response);
+  }
+};
+
+export const getTrendingMovies = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const movies = await rankByScore('trending', Number(req.query.limit) || 20);
+
+    const response: ApiResponse<ScoredMovie[]> = {
+      success: true,
+      data: movies,
+    };
+    res.json(response);
+  } catch (error) {
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to fetch trending movies',
+    };
+    res.status(500).json(response);
+  }
+};
+
+export const getPopularMovies = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const movies = await rankByScore('popularity', Number(req.query.limit) || 20);
+
+    const response: ApiResponse<ScoredMovie[]> = {
+      success: true,
+      data: movies,
+    };
+    res.json(response);
+  } catch (error) {
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to fetch popular movies',
+    };
+    res.status(500).json(response);
+  }
+};
+
+export const semanticSearchMovies = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const query = String(req.query.query);
+    const limit = Number(req.query.limit) || 10;
+
+    const matches = await embeddingService.search(query, limit);
+    const movies = await db.getMoviesByIds(matches.map(match => match.movieId));
+    const moviesById = new Map(movies.map(movie => [movie.id, movie]));
+
+    const results: Array<{ movie: Movie; score: number }> = [];
+    for (const match of matches) {
+      const movie = moviesById.get(match.movieId);
+      if (movie) results.push({ movie, score: match.score });
+    }
+
+    const response: ApiResponse<Array<{ movie: Movie; score: number }>> = {
+      success: true,
+      data: results,
+      message: `Found ${results.length} movies matching "${query}"`,
+    };
+    res.json(response);
+  } catch (error) {
+    console.error('Semantic search error:', error);
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to search movies',
+    };
+    res.status(500).json(response);
+  }
+};
+
 export const createMovie = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const movieData = req.body;
     const movie = await db.createMovie(movieData);
+    await TextSimilarityService.refreshMovie(movie);
+    embeddingService.refreshMovie(movie);
 
     const response: ApiResponse<Movie> = {
       success: true,
@@ -95,6 +299,8 @@ export const updateMovie = async (req: AuthRequest, res: Response): Promise<void
     }
 
     const updatedMovie = await db.updateMovie(id, updateData);
+    await TextSimilarityService.refreshMovie(updatedMovie);
+    embeddingService.refreshMovie(updatedMovie);
 
     const response: ApiResponse<Movie> = {
       success: true,
@@ -141,7 +347,7 @@ export const deleteMovie = async (req: AuthRequest, res: Response): Promise<void
   }
 };
 
-export const searchMovies = async (req: Request, res: Response): Promise<void> => {
+export const searchMovies = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const searchParams = {
       query: req.query.query as string,
@@ -157,11 +363,14 @@ export const searchMovies = async (req: Request, res: Response): Promise<void> =
     };
 
     const { movies, total } = await db.searchMovies(searchParams);
+    const predictions = await predictionsFor(req.user?.id, movies);
 
-    const response: ApiResponse<PaginatedResponse<Movie>> = {
+    const response: ApiResponse<PaginatedResponse<Movie & { prediction?: RatingPrediction }>> = {
       success: true,
       data: {
-        data: movies,
+        data: predictions
+          ? movies.map(movie => ({ ...movie, prediction: predictions.get(movie.id) }))
+          : movies,
         pagination: {
           page: searchParams.page || 1,
           limit: searchParams.limit || 20,
@@ -0,0 +1,468 @@
+import { Response } from 'express';
+import { db } from '../services/database';
+import { MovieNightService } from '../services/movieNightService';
+import { ApiResponse, AuthRequest, Movie, VotingSession, VotingTally } from '../types';
+
+// Ballots stay secret until the session closes, except the requester's own
+const hideOtherBallots = (session: VotingSession, userId: string): VotingSession => {
+  if (session.status === 'closed') return session;
+  return {
+    ...session,
+    participants: session.participants.map(participant => (
+      participant.userId === userId ? participant : { ...participant, ballot: undefined }
+    )),
+  };
+};
+
+// Participants and host only; other users get a 404 so sessions cannot be probed
+const findSessionForUser = async (id: string, userId: string): Promise<VotingSession | null> => {
+  const session = await db.getVotingSessionById(id);
+  if (!session || !session.participants.some(p => p.userId === userId)) return null;
+  return session;
+};
+
+const hasJoined = (session: VotingSession, userId: string): boolean =>
+  session.participants.some(p => p.userId === userId && p.joinedAt);
+
+const sessionBallots = (session: VotingSession): string[][] => session.participants
+  .filter(p => p.ballot && p.ballot.length > 0)
+  .map(p => p.ballot as string[]);
+
+export const createMovieNight = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const user = req.user;
+    if (!user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    const { title, method, participants, movieIds, fromWatchlist, fromRecommendations } = req.body;
+
+    // Participants can be given by ID or username and must be accepted contacts; the host
+    // always takes part. Unknown users and non-contacts get the same answer.
+    const requested = (participants as string[])
+      .filter(identifier => identifier !== user.id && identifier !== user.username);
+    const contacts = await db.getContactsByIdentifiers(user.id, requested);
+    const notContacts = requested.filter(identifier => (
+      !contacts.some(contact => contact.id === identifier || contact.username === identifier)
+    ));
+
+    if (notContacts.length > 0) {
+      const response: ApiResponse = {
+        success: false,
+        error: `Only your contacts can be invited: ${notContacts.join(', ')}`,
+      };
+      res.status(403).json(response);
+      return;
+    }
+
+    const { movies: allMovies } = await db.getMovies();
+    const knownMovieIds = new Set(allMovies.map(movie => movie.id));
+    const missingMovies = (movieIds as string[]).filter(movieId => !knownMovieIds.has(movieId));
+    if (missingMovies.length > 0) {
+      const response: ApiResponse = {
+        success: false,
+        error: `Movies not found: ${missingMovies.join(', ')}`,
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const candidates = await MovieNightService.buildCandidates(
+      user, allMovies, { movieIds, fromWatchlist, fromRecommendations }
+    );
+    if (candidates.length < 2) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'A movie night needs at least two candidate movies',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const session = await db.createVotingSession({
+      title,
+      hostId: user.id,
+      method,
+      candidates,
+      participantIds: [user.id, ...contacts.map(contact => contact.id)],
+    });
+
+    const response: ApiResponse<VotingSession> = {
+      success: true,
+      data: session,
+      message: `Movie night created with ${candidates.length} candidates; invitees take part once they join`,
+    };
+    res.status(201).json(response);
+  } catch (error) {
+    console.error('Create movie night error:', error);
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to create movie night',
+    };
+    res.status(500).json(response);
+  }
+};
+
+export const getMovieNights = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const user = req.user;
+    if (!user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    const sessions = await db.getUserVotingSessions(user.id);
+
+    const response: ApiResponse<VotingSession[]> = {
+      success: true,
+      data: sessions.map(session => hideOtherBallots(session, user.id)),
+    };
+    res.json(response);
+  } catch (error) {
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to fetch movie nights',
+    };
+    res.status(500).json(response);
+  }
+};
+
+export const getMovieNight = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const user = req.user;
+    if (!user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    const session = await findSessionForUser(req.params.id, user.id);
+    if (!session) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Movie night not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    // Populate candidates with movie details
+    const movies = await Promise.all(session.candidates.map(c => db.getMovieById(c.movieId)));
+
+    const response: ApiResponse<VotingSession & { movies: Movie[] }> = {
+      success: true,
+      data: {
+        ...hideOtherBallots(session, user.id),
+        movies: movies.filter((movie): movie is Movie => movie !== null),
+      },
+    };
+    res.json(response);
+  } catch (error) {
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to fetch movie night',
+    };
+    res.status(500).json(response);
+  }
+};
+
+export const castVote = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const user = req.user;
+    if (!user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    const session = await findSessionForUser(req.params.id, user.id);
+    if (!session) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Movie night not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    if (session.status !== 'open') {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Voting has closed for this movie night',
+      };
+      res.status(409).json(response);
+      return;
+    }
+
+    if (!hasJoined(session, user.id)) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Join the movie night before voting',
+      };
+      res.status(403).json(response);
+      return;
+    }
+
+    const { movieIds } = req.body as { movieIds: string[] };
+    const ballotError = MovieNightService.validateBallot(session.candidates.map(c => c.movieId), movieIds);
+    if (ballotError) {
+      const response: ApiResponse = {
+        success: false,
+        error: ballotError,
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    // Voting again replaces the previous ballot
+    await db.saveVotingBallot(session.id, user.id, movieIds);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Vote recorded',
+    };
+    res.json(response);
+  } catch (error) {
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to record vote',
+    };
+    res.status(500).json(response);
+  }
+};
+
+export const getMovieNightTally = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const user = req.user;
+    if (!user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    const session = await findSessionForUser(req.params.id, user.id);
+    if (!session) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Movie night not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    // Closed sessions return the recorded result; open ones a live count
+    const tally = session.tally || MovieNightService.tally(
+      session.method, session.candidates.map(c => c.movieId), sessionBallots(session)
+    );
+
+    const response: ApiResponse<VotingTally> = {
+      success: true,
+      data: tally,
+    };
+    res.json(response);
+  } catch (error) {
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to tally votes',
+    };
+    res.status(500).json(response);
+  }
+};
+
+export const closeMovieNight = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const user = req.user;
+    if (!user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    const session = await findSessionForUser(req.params.id, user.id);
+    if (!session) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Movie night not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    if (session.hostId !== user.id) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Only the host can close a movie night',
+      };
+      res.status(403).json(response);
+      return;
+    }
+
+    const ballots = sessionBallots(session);
+    if (ballots.length === 0) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'No votes have been cast yet',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const tally = MovieNightService.tally(session.method, session.candidates.map(c => c.movieId), ballots);
+    // Only watchlists of users who accepted the invite are touched
+    const watchedUserIds = req.body.markWatched
+      ? session.participants.filter(p => p.joinedAt).map(p => p.userId)
+      : [];
+    const closed = await db.closeVotingSession(session.id, tally, watchedUserIds);
+    if (!closed) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Movie night is already closed',
+      };
+      res.status(409).json(response);
+      return;
+    }
+
+    const response: ApiResponse<VotingTally> = {
+      success: true,
+      data: tally,
+      message: req.body.markWatched
+        ? 'Movie night closed; the winner is marked as watched for everyone who joined'
+        : 'Movie night closed',
+    };
+    res.json(response);
+  } catch (error) {
+    console.error('Close movie night error:', error);
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to close movie night',
+    };
+    res.status(500).json(response);
+  }
+};
+
+export const joinMovieNight = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const user = req.user;
+    if (!user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    const session = await findSessionForUser(req.params.id, user.id);
+    if (!session) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Movie night not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    if (session.status !== 'open') {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Voting has closed for this movie night',
+      };
+      res.status(409).json(response);
+      return;
+    }
+
+    if (!hasJoined(session, user.id)) {
+      await db.joinVotingSession(session.id, user.id);
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Joined movie night',
+    };
+    res.json(response);
+  } catch (error) {
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to join movie night',
+    };
+    res.status(500).json(response);
+  }
+};
+
+// Declining an invite, or leaving a joined session, removes the user and their ballot
+export const leaveMovieNight = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const user = req.user;
+    if (!user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    const session = await findSessionForUser(req.params.id, user.id);
+    if (!session) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Movie night not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    if (session.hostId === user.id) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'The host cannot leave their own movie night',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    if (session.status !== 'open') {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Voting has closed for this movie night',
+      };
+      res.status(409).json(response);
+      return;
+    }
+
+    await db.leaveVotingSession(session.id, user.id);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Left movie night',
+    };
+    res.json(response);
+  } catch (error) {
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to leave movie night',
+    };
+    res.status(500).json(response);
+  }
+};
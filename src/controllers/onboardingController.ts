@@ -0,0 +1,96 @@
+import { Response } from 'express';
+import { db } from '../services/database';
+import { cache } from '../services/cacheService';
+import { RecommendationStore } from '../services/recommendationStore';
+import { OnboardingService, OnboardingMovie } from '../services/onboardingService';
+import { ApiResponse, AuthRequest, Rating } from '../types';
+
+export const getOnboardingMovies = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const user = req.user;
+    if (!user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    const count = Number(req.query.count) || 12;
+    const { movies: allMovies } = await db.getMovies();
+    const allRatings = await db.getAllRatings();
+    const ratedMovieIds = new Set(
+      allRatings.filter(r => r.userId === user.id).map(r => r.movieId)
+    );
+
+    const movies = OnboardingService.selectMovies(allMovies, allRatings, ratedMovieIds, count);
+
+    const response: ApiResponse<OnboardingMovie[]> = {
+      success: true,
+      data: movies,
+      message: `Rate any of these ${movies.length} movies to personalize your recommendations`,
+    };
+    res.json(response);
+  } catch (error) {
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to fetch onboarding movies',
+    };
+    res.status(500).json(response);
+  }
+};
+
+export const submitOnboardingRatings = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const user = req.user;
+    if (!user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    const { ratings } = req.body as { ratings: Array<{ movieId: string; rating: number; liked?: boolean }> };
+
+    const movies = await Promise.all(ratings.map(r => db.getMovieById(r.movieId)));
+    const missing = ratings.filter((_, index) => !movies[index]).map(r => r.movieId);
+    if (missing.length > 0) {
+      const response: ApiResponse = {
+        success: false,
+        error: `Movie not found: ${missing.join(', ')}`,
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const savedRatings: Rating[] = [];
+    for (const { movieId, rating, liked } of ratings) {
+      savedRatings.push(await db.createOrUpdateRating({
+        userId: user.id,
+        movieId,
+        rating,
+        liked: liked !== undefined ? liked : rating > 3,
+      }));
+    }
+
+    // Recommendations are computed from the latest ratings, so the next request is personalized
+    cache.onUserRating(user.id);
+    RecommendationStore.onUserRating(user.id);
+
+    const response: ApiResponse<Rating[]> = {
+      success: true,
+      data: savedRatings,
+      message: `Saved ${savedRatings.length} ratings`,
+    };
+    res.status(201).json(response);
+  } catch (error) {
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to save onboarding ratings',
+    };
+    res.status(500).json(response);
+  }
+};
@@ -1,5 +1,7 @@
 import { Response } from 'express';
 import { db } from '../services/database';
+import { RecommendationStore } from '../services/recommendationStore';
+import { banditService } from '../services/banditService';
 import { ApiResponse, Rating, AuthRequest } from '../types';
 
 export const rateMovie = async (req: AuthRequest, res: Response): Promise<void> => {
@@ -36,6 +38,10 @@ export const rateMovie = async (req: AuthRequest, res: Response): Promise<void>
     };
 
     const newRating = await db.createOrUpdateRating(ratingData);
+    // Neighbours and the stored recommendation list are recomputed in the background
+    RecommendationStore.onUserRating(user.id);
+    // Rewards the recommendation list the movie came from, if any
+    banditService.reward(user.id, movieId, banditService.ratingSignal(newRating));
 
     const response: ApiResponse<Rating> = {
       success: true,
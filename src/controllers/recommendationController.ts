@@ -1,10 +1,38 @@
 import { Response } from 'express';
 import { db } from '../services/database';
-import { AIService } from '../services/aiService';
-import { RecommendationEngine } from '../services/recommendationEngine';
-import { ApiResponse, Recommendation, AuthRequest } from '../types';
+import { recommenderRegistry } from '../services/recommenders';
+import { HybridRecommender, DEFAULT_HYBRID_CONFIG } from '../services/hybridRecommender';
+import { experimentService } from '../services/experimentService';
+import { banditService } from '../services/banditService';
+import { DiversityReranker, DEFAULT_DIVERSITY_OPTIONS } from '../services/diversityReranker';
+import { ExplanationBuilder } from '../services/explanationBuilder';
+import { GroupRecommender } from '../services/groupRecommender';
+import { RatingPredictor } from '../services/ratingPredictor';
+import { RecommendationContext } from '../services/recommendationContext';
+import { RecommendationStore } from '../services/recommendationStore';
+import { ImpressionService } from '../services/impressionService';
+import { recommendationsGenerated } from '../services/metrics';
+import { isAdmin } from '../middleware/auth';
+import {
+  ApiResponse,
+  Recommendation,
+  AuthRequest,
+  RecommendationFilters,
+  GroupRecommendation,
+  GroupStrategy,
+  HybridConfig,
+  HybridNormalization,
+  HybridWeights,
+  MoodProfile,
+  RatingPrediction,
+  RecommendationFreshness,
+  RecommendationListResponse,
+  User,
+} from '../types';
 
 export const getRecommendations = async (req: AuthRequest, res: Response): Promise<void> => {
+  const metricLabels = { algorithm: String(req.query.algorithm || 'hybrid'), experiment: 'none', variant: 'none' };
+
   try {
     const user = req.user;
     if (!user) {
@@ -16,50 +44,149 @@ export const getRecommendations = async (req: AuthRequest, res: Response): Promi
       return;
     }
 
-    const { algorithm = 'hybrid', limit = 10 } = req.query;
-    const { movies: allMovies } = await db.getMovies();
-    
-    let recommendations: Recommendation[] = [];
-
-    switch (algorithm) {
-      case 'collaborative':
-        recommendations = await RecommendationEngine.generateCollaborativeRecommendations(
-          user.id, allMovies, Number(limit)
-        );
-        break;
-      case 'content':
-        recommendations = await RecommendationEngine.generateContentBasedRecommendations(
-          user.id, allMovies, Number(limit)
-        );
-        break;
-      case 'ai':
-        // Use AI service for OpenAI recommendations
-        const userRatings = await db.getUserRatings(user.id);
-        const likedMovies = [];
-        for (const rating of userRatings.filter(r => r.liked)) {
-          const movie = await db.getMovieById(rating.movieId);
-          if (movie) likedMovies.push(movie);
-        }
-        recommendations = await AIService.generateRecommendations(
-          userRatings, allMovies, likedMovies
-        );
-        break;
-      case 'hybrid':
-      default:
-        recommendations = await RecommendationEngine.generateHybridRecommendations(
-          user.id, allMovies, Number(limit)
-        );
-        break;
-    }
-
-    const response: ApiResponse<Recommendation[]> = {
+    const { limit = 10 } = req.query;
+
+    const mood = req.query.mood as string | undefined;
+    if (mood && !RecommendationContext.getMood(mood)) {
+      const response: ApiResponse = {
+        success: false,
+        error: `Unknown mood: ${mood}. Available moods: ${Object.keys(RecommendationContext.getMoods()).join(', ')}`,
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const era = req.query.era as string | undefined;
+    if (era && !RecommendationContext.eraRange(era)) {
+      const response: ApiResponse = {
+        success: false,
+        error: `Invalid era: ${era}`,
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const requestedAlgorithm = req.query.algorithm as string | undefined;
+    if (requestedAlgorithm && !recommenderRegistry.has(requestedAlgorithm)) {
+      const response: ApiResponse = {
+        success: false,
+        error: `Unknown algorithm: ${requestedAlgorithm}. Available algorithms: ${recommenderRegistry.names().join(', ')}`,
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    // Custom blends are for running experiments, so only admins may pass them
+    const customWeights = req.query.weights as HybridWeights | undefined;
+    const customNormalization = req.query.normalization as HybridNormalization | undefined;
+    if (customWeights || customNormalization) {
+      if (!isAdmin(user)) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Only admins can set hybrid weights or normalization',
+        };
+        res.status(403).json(response);
+        return;
+      }
+
+      const blendError = requestedAlgorithm && requestedAlgorithm !== 'hybrid'
+        ? 'weights and normalization only apply to the hybrid algorithm'
+        : customWeights && HybridRecommender.validateWeights(customWeights);
+      if (blendError) {
+        const response: ApiResponse = {
+          success: false,
+          error: blendError,
+        };
+        res.status(400).json(response);
+        return;
+      }
+    }
+
+    // Without an explicit algorithm or blend the bandit (when enabled) or else the user's
+    // experiment variant decides
+    const explicit = Boolean(requestedAlgorithm || customWeights || customNormalization);
+    const banditArm = !explicit && banditService.isEnabled() ? await banditService.choose(user.id) : null;
+    const assignment = explicit || banditArm ? null : experimentService.assign(user.id);
+    const algorithm = requestedAlgorithm || banditArm || assignment?.variant.algorithm || 'hybrid';
+    if (banditArm) {
+      metricLabels.experiment = 'bandit';
+      metricLabels.variant = banditService.getPolicy();
+    }
+    if (assignment) {
+      metricLabels.experiment = assignment.experiment;
+      metricLabels.variant = assignment.variant.name;
+      await experimentService.recordExposure(user.id, assignment);
+    }
+    metricLabels.algorithm = algorithm;
+
+    const hybridWeights = customWeights || assignment?.variant.weights;
+    const normalization = customNormalization || assignment?.variant.normalization;
+    const recommender = algorithm === 'hybrid' && (hybridWeights || normalization)
+      ? new HybridRecommender({
+        weights: hybridWeights || DEFAULT_HYBRID_CONFIG.weights,
+        normalization: normalization || DEFAULT_HYBRID_CONFIG.normalization,
+      })
+      : recommenderRegistry.get(algorithm);
+    if (!recommender) {
+      throw new Error(`Experiment variant uses unknown algorithm: ${algorithm}`);
+    }
+
+    const filters: RecommendationFilters = {
+      genres: req.query.genres as string[] | undefined,
+      excludeWatched: req.query.excludeWatched as boolean | undefined,
+      minYear: req.query.minYear as number | undefined,
+      maxYear: req.query.maxYear as number | undefined,
+      maxRuntime: req.query.maxRuntime as number | undefined,
+      mood,
+      era,
+      language: req.query.language as string[] | undefined,
+      recentTaste: req.query.recentTaste as boolean | undefined,
+    };
+    const diversity = req.query.diversity !== undefined
+      ? Number(req.query.diversity)
+      : DEFAULT_DIVERSITY_OPTIONS.diversity;
+    const candidateCount = DiversityReranker.poolSize(Number(limit), diversity);
+
+    // Unfiltered lists of the default blend are precomputed; everything else runs live
+    const filtered = Object.entries(filters)
+      .some(([key, value]) => value !== undefined && !(key === 'excludeWatched' && value === true));
+    const stored = !filtered && !hybridWeights && !normalization
+      ? await RecommendationStore.get(user.id, algorithm, candidateCount)
+      : null;
+
+    let recommendations: Recommendation[];
+    let freshness: RecommendationFreshness;
+    if (stored) {
+      recommendations = stored.recommendations;
+      freshness = { source: 'precomputed', computedAt: stored.computedAt };
+    } else {
+      const { movies: allMovies } = await db.getMovies();
+      recommendations = await recommender.recommend(user.id, allMovies, candidateCount, filters);
+      freshness = { source: 'live', computedAt: new Date() };
+    }
+
+    if (diversity > 0) {
+      const ratingCounts = await db.getMovieRatingCounts();
+      recommendations = DiversityReranker.rerank(recommendations, Number(limit), ratingCounts, { diversity });
+    }
+    if (banditArm) {
+      await banditService.recordPull(user.id, banditArm, recommendations.map(rec => rec.movie.id));
+    }
+    const listId = await ImpressionService.log(algorithm, recommendations.map(rec => rec.movie.id), user.id);
+
+    recommendationsGenerated.inc({ ...metricLabels, status: 'success' }, recommendations.length);
+
+    const response: RecommendationListResponse<Recommendation> & { freshness: RecommendationFreshness } = {
       success: true,
       data: recommendations,
       message: `Generated ${recommendations.length} ${algorithm} recommendations`,
+      freshness,
+      listId,
     };
     res.json(response);
   } catch (error) {
     console.error('Recommendation error:', error);
+    recommendationsGenerated.inc({ ...metricLabels, status: 'error' });
     const response: ApiResponse = {
       success: false,
       error: 'Failed to generate recommendations',
@@ -68,6 +195,127 @@ export const getRecommendations = async (req: AuthRequest, res: Response): Promi
   }
 };
 
+export const getGroupRecommendations = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const user = req.user;
+    if (!user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    const { members: identifiers, strategy, limit, genres, minYear, maxYear } = req.body as {
+      members: string[];
+      strategy: GroupStrategy;
+      limit: number;
+      genres?: string[];
+      minYear?: number;
+      maxYear?: number;
+    };
+
+    // Members can be given by ID or username and must be accepted contacts; the requester
+    // is always part of the group. Unknown users and non-contacts get the same answer.
+    const requested = identifiers.filter(identifier => identifier !== user.id && identifier !== user.username);
+    const contacts = await db.getContactsByIdentifiers(user.id, requested);
+    const members = new Map<string, User>([[user.id, user]]);
+    contacts.forEach(contact => members.set(contact.id, contact));
+    const notContacts = requested.filter(identifier => (
+      !contacts.some(contact => contact.id === identifier || contact.username === identifier)
+    ));
+
+    if (notContacts.length > 0) {
+      const response: ApiResponse = {
+        success: false,
+        error: `Group members must be your contacts: ${notContacts.join(', ')}`,
+      };
+      res.status(403).json(response);
+      return;
+    }
+
+    const { movies: allMovies } = await db.getMovies();
+    const recommendations = await GroupRecommender.generateRecommendations(
+      Array.from(members.values()), allMovies, strategy, limit, { genres, minYear, maxYear }
+    );
+
+    const response: ApiResponse<GroupRecommendation[]> = {
+      success: true,
+      data: recommendations,
+      message: `Generated ${recommendations.length} ${strategy} recommendations for ${members.size} people`,
+    };
+    res.json(response);
+  } catch (error) {
+    console.error('Group recommendation error:', error);
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to generate group recommendations',
+    };
+    res.status(500).json(response);
+  }
+};
+
+export const getPredictedRating = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const user = req.user;
+    if (!user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    const movie = await db.getMovieById(req.params.movieId);
+    if (!movie) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Movie not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const predictions = await RatingPredictor.predictForUser(user.id, [movie]);
+    const prediction = predictions.get(movie.id) as RatingPrediction;
+
+    const response: ApiResponse<RatingPrediction> = {
+      success: true,
+      data: prediction,
+      message: `Predicted ${prediction.rating.toFixed(1)}/5 for ${movie.title}`,
+    };
+    res.json(response);
+  } catch (error) {
+    console.error('Rating prediction error:', error);
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to predict rating',
+    };
+    res.status(500).json(response);
+  }
+};
+
+export const getMoods = async (req: AuthRequest, res: Response): Promise<void> => {
+  const response: ApiResponse<Record<string, MoodProfile>> = {
+    success: true,
+    data: RecommendationContext.getMoods(),
+  };
+  res.json(response);
+};
+
+export const getAlgorithms = async (req: AuthRequest, res: Response): Promise<void> => {
+  const response: ApiResponse<{ algorithms: { name: string; label: string }[]; hybrid: HybridConfig }> = {
+    success: true,
+    data: {
+      algorithms: recommenderRegistry.list().map(({ name, label }) => ({ name, label })),
+      hybrid: DEFAULT_HYBRID_CONFIG,
+    },
+  };
+  res.json(response);
+};
+
 export const getGenreRecommendations = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const { genre } = req.params;
@@ -93,12 +341,17 @@ export const getGenreRecommendations = async (req: AuthRequest, res: Response):
         movie,
         score: 0.9 - (index * 0.05),
         reason: `Popular ${genre} movie`,
+        explanation: ExplanationBuilder.create('genre', 'popularity', 0.9 - (index * 0.05), {
+          matchedGenres: movie.genre.filter(g => g.toLowerCase() === genre.toLowerCase()),
+        }),
       }));
+    const listId = await ImpressionService.log('genre', recommendations.map(rec => rec.movie.id), req.user?.id);
 
-    const response: ApiResponse<Recommendation[]> = {
+    const response: RecommendationListResponse<Recommendation> = {
       success: true,
       data: recommendations,
       message: `Found ${recommendations.length} ${genre} recommendations`,
+      listId,
     };
     res.json(response);
   } catch (error) {
@@ -1,6 +1,8 @@
 import { Request, Response } from 'express';
 import { tmdbService } from '../services/tmdbService';
 import { db } from '../services/database';
+import { TextSimilarityService } from '../services/textSimilarityService';
+import { embeddingService } from '../services/embeddingService';
 import { ApiResponse, Movie, PaginatedResponse, AuthRequest } from '../types';
 
 export const searchTMDBMovies = async (req: Request, res: Response): Promise<void> => {
@@ -215,6 +217,8 @@ export const importMovieFromTMDB = async (req: AuthRequest, res: Response): Prom
 
     // Save to our database
     const savedMovie = await db.createMovie(movieToSave);
+    await TextSimilarityService.refreshMovie(savedMovie);
+    embeddingService.refreshMovie(savedMovie);
 
     const response: ApiResponse<Movie> = {
       success: true,
@@ -273,7 +277,9 @@ export const importPopularMovies = async (req: AuthRequest, res: Response): Prom
                 ...tmdbMovie,
                 id: undefined,
               };
-              await db.createMovie(movieToSave);
+              const savedMovie = await db.createMovie(movieToSave);
+              await TextSimilarityService.refreshMovie(savedMovie);
+              embeddingService.refreshMovie(savedMovie);
               importedCount++;
             } else {
               skippedCount++;
@@ -2,7 +2,9 @@ import { Request, Response } from 'express';
 import { db } from '../services/database';
 import { UserModel } from '../models/User';
 import { generateToken } from '../middleware/auth';
-import { ApiResponse, User, AuthRequest } from '../types';
+import { cache } from '../services/cacheService';
+import { RecommendationStore } from '../services/recommendationStore';
+import { ApiResponse, User, AuthRequest, MoviePreferences } from '../types';
 
 export const register = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -135,4 +137,75 @@ export const getProfile = async (req: AuthRequest, res: Response): Promise<void>
     };
     res.status(500).json(response);
   }
-};
\ No newline at end of file
+};
+
+export const getPreferences = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const user = req.user;
+    if (!user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    const response: ApiResponse<MoviePreferences> = {
+      success: true,
+      data: user.preferences || { likedGenres: [], dislikedGenres: [] },
+    };
+    res.json(response);
+  } catch (error) {
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to fetch preferences',
+    };
+    res.status(500).json(response);
+  }
+};
+
+export const updatePreferences = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const user = req.user;
+    if (!user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    const { likedGenres = [], dislikedGenres = [], preferredYearRange } = req.body;
+    if (preferredYearRange && preferredYearRange.min > preferredYearRange.max) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'preferredYearRange.min must not be greater than preferredYearRange.max',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const updatedUser = await db.updateUserPreferences(user.id, {
+      likedGenres,
+      dislikedGenres,
+      preferredYearRange,
+    });
+    cache.onUserPreferencesUpdate(user.id);
+    RecommendationStore.invalidate(user.id);
+
+    const response: ApiResponse<MoviePreferences> = {
+      success: true,
+      data: updatedUser.preferences || { likedGenres: [], dislikedGenres: [] },
+      message: 'Preferences updated successfully',
+    };
+    res.json(response);
+  } catch (error) {
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to update preferences',
+    };
+    res.status(500).json(response);
+  }
+};
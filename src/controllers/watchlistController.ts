@@ -1,6 +1,16 @@
 import { Response } from 'express';
 import { db } from '../services/database';
-import { ApiResponse, WatchlistItem, AuthRequest, Movie } from '../types';
+import { RecommendationStore } from '../services/recommendationStore';
+import { banditService } from '../services/banditService';
+import { ApiResponse, WatchlistItem, AuthRequest, Movie, InteractionType } from '../types';
+
+// Watchlist changes are implicit feedback for the recommenders. Recorded in the
+// background: the watchlist change itself has already succeeded.
+const recordWatchlistInteraction = (userId: string, movieId: string, type: InteractionType): void => {
+  db.createInteractionEvents([{ userId, movieId, type }])
+    .then(() => RecommendationStore.invalidate(userId))
+    .catch(error => console.error(`Failed to record ${type} interaction:`, error));
+};
 
 export const addToWatchlist = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
@@ -35,6 +45,8 @@ export const addToWatchlist = async (req: AuthRequest, res: Response): Promise<v
     };
 
     const watchlistItem = await db.addToWatchlist(watchlistData);
+    recordWatchlistInteraction(user.id, movieId, 'watchlist_add');
+    banditService.reward(user.id, movieId, 'watchlist_add');
 
     const response: ApiResponse<WatchlistItem> = {
       success: true,
@@ -65,6 +77,7 @@ export const removeFromWatchlist = async (req: AuthRequest, res: Response): Prom
 
     const { movieId } = req.params;
     await db.removeFromWatchlist(user.id, movieId);
+    recordWatchlistInteraction(user.id, movieId, 'watchlist_remove');
 
     const response: ApiResponse = {
       success: true,
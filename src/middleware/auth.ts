@@ -1,7 +1,7 @@
 import { Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { db } from '../services/database';
-import { AuthRequest } from '../types';
+import { AuthRequest, User } from '../types';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
 
@@ -34,6 +34,43 @@ export const authenticateToken = async (req: AuthRequest, res: Response, next: N
   }
 };
 
+// For public endpoints that add personal details when a valid token is sent.
+// A missing or invalid token is not an error; the request continues anonymously.
+export const optionalAuth = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  const authHeader = req.headers.authorization;
+  const token = authHeader && authHeader.split(' ')[1];
+
+  if (token) {
+    try {
+      const decoded = jwt.verify(token, JWT_SECRET) as { userId: string };
+      req.user = await db.getUserById(decoded.userId) || undefined;
+    } catch (error) {
+      req.user = undefined;
+    }
+  }
+
+  next();
+};
+
+// Admins are configured by email in ADMIN_EMAILS (comma-separated)
+export const isAdmin = (user?: User): boolean => {
+  const adminEmails = (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean);
+
+  return Boolean(user && adminEmails.includes(user.email.toLowerCase()));
+};
+
+export const requireAdmin = (req: AuthRequest, res: Response, next: NextFunction): void => {
+  if (!isAdmin(req.user)) {
+    res.status(403).json({ success: false, error: 'Admin access required' });
+    return;
+  }
+
+  next();
+};
+
 export const generateToken = (userId: string): string => {
   return jwt.sign({ userId }, JWT_SECRET, { expiresIn: '24h' });
 };
\ No newline at end of file
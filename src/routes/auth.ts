@@ -1,14 +1,16 @@
 import { Router } from 'express';
-import { register, login, getProfile } from '../controllers/userController';
+import { register, login, getProfile, getPreferences, updatePreferences } from '../controllers/userController';
 import { authenticateToken } from '../middleware/auth';
 import { validateBody } from '../middleware/validation';
-import { UserRegistrationSchema, UserLoginSchema } from '../schemas/validation';
+import { UserRegistrationSchema, UserLoginSchema, UpdateUserPreferencesSchema } from '../schemas/validation';
 import { authLimiter } from '../middleware/rateLimit';
 
 const router = Router();
 
-router.post('/register', validateBody(UserRegistrationSchema), register);
-router.post('/login', validateBody(UserLoginSchema), login);
+router.post('/register', authLimiter, validateBody(UserRegistrationSchema), register);
+router.post('/login', authLimiter, validateBody(UserLoginSchema), login);
 router.get('/profile', authenticateToken, getProfile);
+router.get('/preferences', authenticateToken, getPreferences);
+router.put('/preferences', authenticateToken, validateBody(UpdateUserPreferencesSchema), updatePreferences);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,34 @@
+import { Router } from 'express';
+import { requestContact, getContacts, acceptContact, removeContact } from '../controllers/contactController';
+import { authenticateToken } from '../middleware/auth';
+import { validateBody, validateParams } from '../middleware/validation';
+import { ContactRequestSchema } from '../schemas/validation';
+import { z } from 'zod';
+
+const router = Router();
+
+const ContactIdSchema = z.object({
+  id: z.string().min(1, 'Contact ID is required'),
+});
+
+router.get('/', authenticateToken, getContacts);
+
+router.post('/', 
+  authenticateToken, 
+  validateBody(ContactRequestSchema), 
+  requestContact
+);
+
+router.post('/:id/accept', 
+  authenticateToken, 
+  validateParams(ContactIdSchema), 
+  acceptContact
+);
+
+router.delete('/:id', 
+  authenticateToken, 
+  validateParams(ContactIdSchema), 
+  removeContact
+);
+
+export default router;
@@ -7,7 +7,7 @@ import {
   updateMovieMetadata,
   getMissingMovieData,
 } from '../controllers/enrichmentController';
-import { authenticateToken } from '../middleware/auth';
+import { authenticateToken, optionalAuth } from '../middleware/auth';
 import { validateParams } from '../middleware/validation';
 import { z } from 'zod';
 
@@ -20,11 +20,13 @@ const MovieIdSchema = z.object({
 
 // Public endpoints
 router.get('/movies/:movieId/recommendations', 
+  optionalAuth, 
   validateParams(MovieIdSchema), 
   getMovieRecommendations
 );
 
 router.get('/movies/:movieId/similar', 
+  optionalAuth, 
   validateParams(MovieIdSchema), 
   getSimilarMovies
 );
@@ -0,0 +1,31 @@
+import { Router } from 'express';
+import { getExperiments, getExperimentSummary, getBanditSummary } from '../controllers/experimentController';
+import { authenticateToken, requireAdmin } from '../middleware/auth';
+import { validateParams, validateQuery } from '../middleware/validation';
+import { z } from 'zod';
+
+const router = Router();
+
+const ExperimentNameSchema = z.object({
+  name: z.string().min(1, 'Experiment name is required'),
+});
+
+// Admin endpoints
+router.get('/', authenticateToken, requireAdmin, getExperiments);
+
+// Learned arm statistics of the algorithm bandit, optionally with one user's own
+router.get('/bandit', 
+  authenticateToken, 
+  requireAdmin, 
+  validateQuery(z.object({ userId: z.string().min(1).optional() })), 
+  getBanditSummary
+);
+
+router.get('/:name/summary', 
+  authenticateToken, 
+  requireAdmin, 
+  validateParams(ExperimentNameSchema), 
+  getExperimentSummary
+);
+
+export default router;
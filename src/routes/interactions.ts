@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import { recordInteractions, getUserInteractions } from '../controllers/interactionController';
+import { authenticateToken } from '../middleware/auth';
+import { validateBody, validateQuery } from '../middleware/validation';
+import { InteractionBatchSchema } from '../schemas/validation';
+import { z } from 'zod';
+
+const router = Router();
+
+// The current user's latest interactions, newest first
+router.get('/',
+  authenticateToken,
+  validateQuery(z.object({
+    limit: z.number().int().min(1).max(200).optional(),
+  })),
+  getUserInteractions
+);
+
+// Detail views and search clicks, up to 100 per request
+router.post('/',
+  authenticateToken,
+  validateBody(InteractionBatchSchema),
+  recordInteractions
+);
+
+export default router;
@@ -0,0 +1,69 @@
+import { Router } from 'express';
+import {
+  createMovieNight,
+  getMovieNights,
+  getMovieNight,
+  castVote,
+  getMovieNightTally,
+  closeMovieNight,
+  joinMovieNight,
+  leaveMovieNight,
+} from '../controllers/movieNightController';
+import { authenticateToken } from '../middleware/auth';
+import { validateBody, validateParams } from '../middleware/validation';
+import { VotingSessionSchema, VotingBallotSchema, CloseVotingSessionSchema } from '../schemas/validation';
+import { z } from 'zod';
+
+const router = Router();
+
+const SessionIdSchema = z.object({
+  id: z.string().min(1, 'Movie night ID is required'),
+});
+
+router.get('/', authenticateToken, getMovieNights);
+
+router.post('/', 
+  authenticateToken, 
+  validateBody(VotingSessionSchema), 
+  createMovieNight
+);
+
+router.get('/:id', 
+  authenticateToken, 
+  validateParams(SessionIdSchema), 
+  getMovieNight
+);
+
+router.post('/:id/join', 
+  authenticateToken, 
+  validateParams(SessionIdSchema), 
+  joinMovieNight
+);
+
+router.post('/:id/leave', 
+  authenticateToken, 
+  validateParams(SessionIdSchema), 
+  leaveMovieNight
+);
+
+router.post('/:id/votes', 
+  authenticateToken, 
+  validateParams(SessionIdSchema), 
+  validateBody(VotingBallotSchema), 
+  castVote
+);
+
+router.get('/:id/tally', 
+  authenticateToken, 
+  validateParams(SessionIdSchema), 
+  getMovieNightTally
+);
+
+router.post('/:id/close', 
+  authenticateToken, 
+  validateParams(SessionIdSchema), 
+  validateBody(CloseVotingSessionSchema), 
+  closeMovieNight
+);
+
+export default router;
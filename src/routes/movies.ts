@@ -1,6 +1,17 @@
 import { Router } from 'express';
-import { getAllMovies, getMovieById, createMovie, updateMovie, deleteMovie, searchMovies } from '../controllers/movieController';
-import { authenticateToken } from '../middleware/auth';
+import {
+  getAllMovies,
+  getMovieById,
+  getSimilarMovies,
+  getTrendingMovies,
+  getPopularMovies,
+  semanticSearchMovies,
+  createMovie,
+  updateMovie,
+  deleteMovie,
+  searchMovies,
+} from '../controllers/movieController';
+import { authenticateToken, optionalAuth } from '../middleware/auth';
 import { validateBody, validateQuery, validateParams } from '../middleware/validation';
 import { CreateMovieSchema, UpdateMovieSchema, MovieSearchSchema } from '../schemas/validation';
 import { createMovieLimiter } from '../middleware/rateLimit';
@@ -12,14 +23,31 @@ const MovieIdSchema = z.object({
   id: z.string().min(1, 'Movie ID is required'),
 });
 
+const ScoredMoviesQuerySchema = z.object({
+  limit: z.number().int().min(1).max(100).optional(),
+});
+
 router.get('/', validateQuery(z.object({
   page: z.number().int().min(1).optional(),
   limit: z.number().int().min(1).max(100).optional(),
 })), getAllMovies);
 
-router.get('/search', validateQuery(MovieSearchSchema), searchMovies);
+router.get('/search', optionalAuth, validateQuery(MovieSearchSchema), searchMovies);
+
+router.get('/trending', validateQuery(ScoredMoviesQuerySchema), getTrendingMovies);
+
+router.get('/popular', validateQuery(ScoredMoviesQuerySchema), getPopularMovies);
+
+router.get('/search/semantic', validateQuery(z.object({
+  query: z.string().min(1, 'Query is required').max(500),
+  limit: z.number().int().min(1).max(50).optional(),
+})), semanticSearchMovies);
+
+router.get('/:id', optionalAuth, validateParams(MovieIdSchema), getMovieById);
 
-router.get('/:id', validateParams(MovieIdSchema), getMovieById);
+router.get('/:id/similar', validateParams(MovieIdSchema), validateQuery(z.object({
+  limit: z.number().int().min(1).max(50).optional(),
+})), getSimilarMovies);
 
 router.post('/', createMovieLimiter, authenticateToken, validateBody(CreateMovieSchema), createMovie);
 
@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import { getOnboardingMovies, submitOnboardingRatings } from '../controllers/onboardingController';
+import { authenticateToken } from '../middleware/auth';
+import { validateBody, validateQuery } from '../middleware/validation';
+import { OnboardingRatingsSchema } from '../schemas/validation';
+import { z } from 'zod';
+
+const router = Router();
+
+const OnboardingQuerySchema = z.object({
+  count: z.number().int().min(1).max(30).optional(),
+});
+
+router.get('/movies', 
+  authenticateToken, 
+  validateQuery(OnboardingQuerySchema), 
+  getOnboardingMovies
+);
+
+router.post('/ratings', 
+  authenticateToken, 
+  validateBody(OnboardingRatingsSchema), 
+  submitOnboardingRatings
+);
+
+export default router;
@@ -1,8 +1,23 @@
 import { Router } from 'express';
-import { getRecommendations, getGenreRecommendations } from '../controllers/recommendationController';
-import { authenticateToken } from '../middleware/auth';
-import { validateQuery } from '../middleware/validation';
-import { RecommendationRequestSchema } from '../schemas/validation';
+import {
+  getRecommendations,
+  getGroupRecommendations,
+  getPredictedRating,
+  getMoods,
+  getAlgorithms,
+  getGenreRecommendations,
+} from '../controllers/recommendationController';
+import { createFeedback, getUserFeedback, deleteFeedback } from '../controllers/feedbackController';
+import { recordRecommendationClick, getQualityReport } from '../controllers/impressionController';
+import { authenticateToken, optionalAuth, requireAdmin } from '../middleware/auth';
+import { validateBody, validateQuery, validateParams } from '../middleware/validation';
+import {
+  RecommendationRequestSchema,
+  RecommendationFeedbackSchema,
+  RecommendationClickSchema,
+  GroupRecommendationSchema,
+  HybridWeightsSchema,
+} from '../schemas/validation';
 import { recommendationLimiter } from '../middleware/rateLimit';
 import { z } from 'zod';
 
@@ -12,10 +27,65 @@ router.get('/',
   recommendationLimiter,
   authenticateToken, 
   validateQuery(RecommendationRequestSchema.extend({
-    algorithm: z.enum(['hybrid', 'collaborative', 'content', 'ai']).optional(),
+    // Checked against the recommender registry by the controller
+    algorithm: z.string().min(1).optional(),
+    weights: HybridWeightsSchema.optional(),
+    normalization: z.enum(['none', 'max', 'minmax', 'rank']).optional(),
   })), 
   getRecommendations
 );
 
-router.get('/genre/:genre', getGenreRecommendations);
+// Recommendations for several users watching together
+router.post('/group', 
+  recommendationLimiter,
+  authenticateToken, 
+  validateBody(GroupRecommendationSchema), 
+  getGroupRecommendations
+);
+
+// Registered algorithms and the default hybrid blend
+router.get('/algorithms', getAlgorithms);
+
+// Moods accepted by the `mood` parameter
+router.get('/moods', getMoods);
+
+// Expected star rating of any movie for the current user
+router.get('/predict/:movieId', 
+  authenticateToken, 
+  validateParams(z.object({ movieId: z.string().min(1, 'Movie ID is required') })), 
+  getPredictedRating
+);
+
+router.get('/genre/:genre', optionalAuth, getGenreRecommendations);
+
+// Clicks and conversions on served lists; lists served to a signed-in user need their token
+router.post('/clicks', 
+  optionalAuth, 
+  validateBody(RecommendationClickSchema), 
+  recordRecommendationClick
+);
+
+// CTR, conversion rate and MRR per algorithm (admin)
+router.get('/quality', 
+  authenticateToken, 
+  requireAdmin, 
+  validateQuery(z.object({ days: z.number().int().min(1).max(365).optional() })), 
+  getQualityReport
+);
+
+// "Not interested" feedback on recommendations
+router.get('/feedback', authenticateToken, getUserFeedback);
+
+router.post('/feedback', 
+  authenticateToken, 
+  validateBody(RecommendationFeedbackSchema), 
+  createFeedback
+);
+
+router.delete('/feedback/:id', 
+  authenticateToken, 
+  validateParams(z.object({ id: z.string().min(1, 'Feedback ID is required') })), 
+  deleteFeedback
+);
+
 export default router;
\ No newline at end of file
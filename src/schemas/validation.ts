@@ -56,6 +56,15 @@ export const RatingSchema = z.object({
   review: z.string().max(500).optional(),
 });
 
+// Onboarding schemas
+export const OnboardingRatingsSchema = z.object({
+  ratings: z.array(z.object({
+    movieId: z.string().min(1, 'Movie ID is required'),
+    rating: z.number().int().min(1).max(5),
+    liked: z.boolean().optional(),
+  })).min(1, 'At least one rating is required').max(50),
+});
+
 // Search schemas
 export const MovieSearchSchema = z.object({
   query: z.string().optional(),
@@ -80,10 +89,103 @@ export const WatchlistItemSchema = z.object({
 // Recommendation schemas
 export const RecommendationRequestSchema = z.object({
   limit: z.number().int().min(1).max(50).default(10).optional(),
-  genres: z.array(z.string()).optional(),
+  genres: z.preprocess(
+    value => (typeof value === 'string' ? value.split(',').map(g => g.trim()) : value),
+    z.array(z.string())
+  ).optional(),
   excludeWatched: z.boolean().default(true).optional(),
   minYear: z.number().int().min(1800).optional(),
   maxYear: z.number().int().max(new Date().getFullYear() + 5).optional(),
+  diversity: z.number().min(0).max(1).optional(),
+  maxRuntime: z.number().int().min(30).max(600).optional(),
+  mood: z.string().min(1).max(30).optional(),
+  era: z.string().regex(/^(classic|modern|recent|\d{2}s|\d{4}s)$/i, 'Use a decade like 1990s or 90s, or classic, modern or recent').optional(),
+  language: z.preprocess(
+    value => (typeof value === 'string' ? value.split(',').map(l => l.trim()) : value),
+    z.array(z.string().min(2))
+  ).optional(),
+  recentTaste: z.boolean().optional(),
+});
+
+// Click on, or conversion of, a movie from a served list (`listId` from the list's response)
+export const RecommendationClickSchema = z.object({
+  listId: z.string().min(1, 'List ID is required'),
+  movieId: z.string().min(1, 'Movie ID is required'),
+  type: z.enum(['click', 'rated', 'watchlisted']).default('click'),
+});
+
+// Per-request hybrid blend as "name:weight" pairs, e.g. "collaborative:0.5,item:0.5"
+export const HybridWeightsSchema = z.preprocess(
+  value => (typeof value === 'string'
+    ? Object.fromEntries(value.split(',').map(pair => {
+      const [name, weight] = pair.split(':').map(part => part.trim());
+      return [name, weight === undefined || weight === '' ? NaN : Number(weight)];
+    }))
+    : value),
+  z.record(z.number({ invalid_type_error: 'Use name:weight pairs, e.g. collaborative:0.5,content:0.5' }).min(0))
+);
+
+// Contact request to a user given by ID or username
+export const ContactRequestSchema = z.object({
+  user: z.string().min(1, 'User ID or username is required'),
+});
+
+// Group recommendations: the requester plus accepted contacts given by user ID or username
+export const GroupRecommendationSchema = z.object({
+  members: z.array(z.string().min(1)).min(1).max(10),
+  strategy: z.enum(['least_misery', 'average', 'most_pleasure']).default('average'),
+  limit: z.number().int().min(1).max(50).default(10),
+  genres: z.array(z.string()).optional(),
+  minYear: z.number().int().min(1800).optional(),
+  maxYear: z.number().int().max(new Date().getFullYear() + 5).optional(),
+});
+
+// Recommendation feedback schemas
+export const RecommendationFeedbackSchema = z.object({
+  type: z.enum(['dismiss', 'snooze', 'not_interested']),
+  movieId: z.string().min(1).optional(),
+  genre: z.string().min(1).optional(),
+  director: z.string().min(1).optional(),
+  days: z.number().int().min(1).max(365).optional(), // snooze length, default 30
+}).refine(data => data.type === 'not_interested' || data.movieId, {
+  message: 'movieId is required to dismiss or snooze a movie',
+  path: ['movieId'],
+}).refine(data => data.type !== 'not_interested' || data.genre || data.director, {
+  message: 'genre or director is required for not_interested feedback',
+  path: ['genre'],
+});
+
+// Movie-night voting schemas
+export const VotingSessionSchema = z.object({
+  title: z.string().min(1).max(100),
+  method: z.enum(['ranked', 'approval']).default('ranked'),
+  participants: z.array(z.string().min(1)).max(20).default([]), // user IDs or usernames
+  movieIds: z.array(z.string().min(1)).max(20).default([]),
+  fromWatchlist: z.number().int().min(1).max(20).optional(),
+  fromRecommendations: z.number().int().min(1).max(10).optional(),
+}).refine(data => data.movieIds.length > 0 || data.fromWatchlist || data.fromRecommendations, {
+  message: 'Candidates are required: movieIds, fromWatchlist or fromRecommendations',
+  path: ['movieIds'],
+});
+
+export const VotingBallotSchema = z.object({
+  movieIds: z.array(z.string().min(1)).min(1).max(20), // most preferred first for ranked sessions
+});
+
+export const CloseVotingSessionSchema = z.object({
+  markWatched: z.boolean().default(true),
+});
+
+// Implicit feedback sent by clients; watchlist changes are recorded by the watchlist endpoints
+export const InteractionEventSchema = z.object({
+  type: z.enum(['view', 'search_click']),
+  movieId: z.string().min(1, 'Movie ID is required'),
+  query: z.string().max(200).optional(), // search_click only
+  occurredAt: z.string().datetime().optional(), // for events sent in batches, default now
+});
+
+export const InteractionBatchSchema = z.object({
+  events: z.array(InteractionEventSchema).min(1).max(100),
 });
 
 // Validation helpers
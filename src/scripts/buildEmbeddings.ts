@@ -0,0 +1,27 @@
+import { db } from '../services/database';
+import { embeddingService } from '../services/embeddingService';
+
+const buildEmbeddings = async (): Promise<void> => {
+  try {
+    await db.connect();
+    console.log('Connected to database');
+
+    const { movies } = await db.getMovies();
+    console.log(`Embedding ${movies.length} movies with ${embeddingService.providerName}...`);
+    const count = await embeddingService.embedMovies(movies);
+
+    console.log(`🎉 Stored ${count} movie embeddings`);
+  } catch (error) {
+    console.error('❌ Error building movie embeddings:', error);
+    process.exitCode = 1;
+  } finally {
+    await db.disconnect();
+  }
+};
+
+// Run if this file is executed directly
+if (require.main === module) {
+  buildEmbeddings();
+}
+
+export { buildEmbeddings };
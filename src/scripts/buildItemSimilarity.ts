@@ -0,0 +1,26 @@
+import { db } from '../services/database';
+import { ItemSimilarityService } from '../services/itemSimilarityService';
+
+const buildItemSimilarity = async (): Promise<void> => {
+  try {
+    await db.connect();
+    console.log('Connected to database');
+
+    console.log('Rebuilding item-item similarity table...');
+    const { ratings, pairs } = await ItemSimilarityService.rebuild();
+
+    console.log(`🎉 Stored ${pairs} similarity pairs computed from ${ratings} ratings`);
+  } catch (error) {
+    console.error('❌ Error building item similarity table:', error);
+    process.exitCode = 1;
+  } finally {
+    await db.disconnect();
+  }
+};
+
+// Run if this file is executed directly
+if (require.main === module) {
+  buildItemSimilarity();
+}
+
+export { buildItemSimilarity };
@@ -0,0 +1,27 @@
+import { db } from '../services/database';
+import { TextSimilarityService } from '../services/textSimilarityService';
+
+const buildTextVectors = async (): Promise<void> => {
+  try {
+    await db.connect();
+    console.log('Connected to database');
+
+    console.log('Rebuilding movie text vectors...');
+    const { movies } = await db.getMovies();
+    const count = await TextSimilarityService.rebuild(movies);
+
+    console.log(`🎉 Indexed descriptions, cast and directors of ${count} movies`);
+  } catch (error) {
+    console.error('❌ Error building movie text vectors:', error);
+    process.exitCode = 1;
+  } finally {
+    await db.disconnect();
+  }
+};
+
+// Run if this file is executed directly
+if (require.main === module) {
+  buildTextVectors();
+}
+
+export { buildTextVectors };
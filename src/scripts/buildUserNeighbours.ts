@@ -0,0 +1,26 @@
+import { db } from '../services/database';
+import { UserSimilarityService } from '../services/userSimilarityService';
+
+const buildUserNeighbours = async (): Promise<void> => {
+  try {
+    await db.connect();
+    console.log('Connected to database');
+
+    console.log(`Rebuilding user neighbour table (${UserSimilarityService.getMetric()})...`);
+    const { users, pairs } = await UserSimilarityService.rebuild();
+
+    console.log(`🎉 Stored ${pairs} neighbour pairs for ${users} users`);
+  } catch (error) {
+    console.error('❌ Error building user neighbour table:', error);
+    process.exitCode = 1;
+  } finally {
+    await db.disconnect();
+  }
+};
+
+// Run if this file is executed directly
+if (require.main === module) {
+  buildUserNeighbours();
+}
+
+export { buildUserNeighbours };
@@ -0,0 +1,232 @@
+import fs from 'fs';
+import path from 'path';
+import { db, RecommendationDataSource } from '../services/database';
+import { ItemSimilarityService } from '../services/itemSimilarityService';
+import { MatrixFactorizationService } from '../services/matrixFactorizationService';
+import { TextSimilarityService } from '../services/textSimilarityService';
+import { EmbeddingService } from '../services/embeddingService';
+import { HashingEmbeddingProvider } from '../services/embeddingProviders';
+import { PopularityService } from '../services/popularityService';
+import { UserSimilarityService } from '../services/userSimilarityService';
+import { RecommendationSource } from '../services/recommendationSource';
+import { recommenderRegistry } from '../services/recommenders';
+import {
+  EvaluationService,
+  EvaluationDataset,
+  AlgorithmReport,
+  RecommendFn,
+} from '../services/evaluationService';
+import { Movie, Rating, User } from '../types';
+
+// Usage:
+//   npm run evaluate -- [--fixture data/ratings.json] [--k 10] [--split 0.8]
+//                       [--algorithms collaborative,content] [--output report.json]
+//
+// Without --fixture the movies and ratings are read once from the local database.
+// A fixture is a JSON file of the form { "movies": Movie[], "ratings": Rating[] }.
+
+interface EvaluationOptions {
+  fixture?: string;
+  k: number;
+  split: number;
+  algorithms?: string[];
+  output?: string;
+}
+
+const parseArgs = (argv: string[]): EvaluationOptions => {
+  const options: EvaluationOptions = { k: 10, split: 0.8 };
+
+  for (let i = 0; i < argv.length; i++) {
+    const value = argv[i + 1];
+    switch (argv[i]) {
+      case '--fixture':
+        options.fixture = value;
+        i++;
+        break;
+      case '--k':
+        options.k = Number(value);
+        i++;
+        break;
+      case '--split':
+        options.split = Number(value);
+        i++;
+        break;
+      case '--algorithms':
+        options.algorithms = value.split(',').map(a => a.trim());
+        i++;
+        break;
+      case '--output':
+        options.output = value;
+        i++;
+        break;
+    }
+  }
+
+  return options;
+};
+
+const loadDataset = async (fixture?: string): Promise<EvaluationDataset> => {
+  if (fixture) {
+    const raw = JSON.parse(fs.readFileSync(path.resolve(fixture), 'utf-8'));
+    return {
+      movies: raw.movies,
+      ratings: raw.ratings.map((r: Rating) => ({
+        ...r,
+        createdAt: new Date(r.createdAt),
+        updatedAt: r.updatedAt ? new Date(r.updatedAt) : undefined,
+      })),
+    };
+  }
+
+  await db.connect();
+  try {
+    const { movies } = await db.getMovies();
+    const ratings = await db.getAllRatings();
+    return { movies, ratings };
+  } finally {
+    await db.disconnect();
+  }
+};
+
+// The recommenders read the training split and measure rating ages from the cutoff,
+// so every strategy sees exactly what it would have seen at that time.
+const trainingSource = async (movies: Movie[], train: Rating[], cutoff: Date): Promise<RecommendationSource> => {
+  const users: User[] = Array.from(new Set(train.map(r => r.userId))).map(id => ({
+    id,
+    username: id,
+    email: `${id}@evaluation.local`,
+    password: '',
+    createdAt: new Date(0),
+  }));
+  const similarities = ItemSimilarityService.computeSimilarities(train);
+  const factorModel = {
+    ...MatrixFactorizationService.train(train),
+    id: 'evaluation',
+    createdAt: new Date(),
+  };
+  // Nothing is stored, so neighbours are computed from the training ratings when asked for
+  const ratingIndex = UserSimilarityService.buildIndex(train, cutoff);
+  // Embeddings come from the local hashing provider so the run never calls a remote model
+  const embeddingProvider = new HashingEmbeddingProvider();
+  const vectors = await embeddingProvider.embed(movies.map(movie => EmbeddingService.movieText(movie)));
+  // Popularity as of the cutoff, so the cold-start fallback cannot see the future
+  const movieScores = PopularityService.compute(movies, train, [], cutoff)
+    .map(score => ({ ...score, updatedAt: cutoff }));
+  const embeddings = movies.map((movie, i) => ({
+    movieId: movie.id,
+    model: embeddingProvider.name,
+    dimensions: vectors[i].length,
+    vector: vectors[i],
+    updatedAt: cutoff,
+  }));
+  const textVectors = movies.map(movie => ({ ...TextSimilarityService.termFrequencies(movie), updatedAt: cutoff }));
+
+  const data: RecommendationDataSource = {
+    getAllRatings: async () => train,
+    getUserRatings: async (userId: string) => train.filter(r => r.userId === userId),
+    getRatingsForUsers: async (userIds: string[]) => train.filter(r => userIds.includes(r.userId)),
+    getUserById: async (id: string) => users.find(user => user.id === id) || null,
+    getUserNeighbours: async (userId: string) =>
+      UserSimilarityService.topNeighbours(userId, UserSimilarityService.similarities(ratingIndex, userId)),
+    replaceUserNeighbours: async () => undefined,
+    getMovieSimilarities: async (movieIds: string[]) =>
+      similarities.filter(s => movieIds.includes(s.movieId)),
+    getLatestFactorModel: async () => factorModel,
+    getUserFeedback: async () => [],
+    getWatchedMovieIds: async () => [],
+    // Evaluated on explicit ratings only
+    getUserInteractions: async () => [],
+    getInteractionsForUsers: async () => [],
+    getMovieTextVectors: async () => textVectors,
+    getMovieEmbeddings: async () => embeddings,
+    getMovieScores: async () => movieScores,
+  };
+
+  return {
+    data,
+    now: cutoff,
+    embeddings: new EmbeddingService(embeddingProvider, data),
+    // The AI strategy is replayed through its local fallback so the run never calls OpenAI
+    remote: false,
+  };
+};
+
+const buildStrategies = (movies: Movie[], source: RecommendationSource): Record<string, RecommendFn> => {
+  const strategies: Record<string, RecommendFn> = {};
+  recommenderRegistry.list().forEach(recommender => {
+    strategies[recommender.name] = (userId, _ratings, k) => recommender.recommend(userId, movies, k, {}, source);
+  });
+  return strategies;
+};
+
+const formatTable = (reports: AlgorithmReport[], k: number): string => {
+  const headers = ['algorithm', 'users', `P@${k}`, `R@${k}`, `NDCG@${k}`, `MAP@${k}`, 'coverage', 'novelty', 'ms'];
+  const rows = reports.map(r => [
+    r.algorithm,
+    String(r.users),
+    r.precisionAtK.toFixed(4),
+    r.recallAtK.toFixed(4),
+    r.ndcg.toFixed(4),
+    r.map.toFixed(4),
+    r.coverage.toFixed(4),
+    r.novelty.toFixed(3),
+    String(r.durationMs),
+  ]);
+  const widths = headers.map((header, col) =>
+    Math.max(header.length, ...rows.map(row => row[col].length))
+  );
+  const line = (cells: string[]): string => cells.map((cell, col) => cell.padEnd(widths[col])).join('  ');
+
+  return [line(headers), widths.map(w => '-'.repeat(w)).join('  '), ...rows.map(line)].join('\n');
+};
+
+const evaluateRecommendations = async (): Promise<void> => {
+  try {
+    const options = parseArgs(process.argv.slice(2));
+    const { movies, ratings } = await loadDataset(options.fixture);
+    const split = EvaluationService.splitByTime(ratings, options.split);
+
+    console.log(`Loaded ${movies.length} movies and ${ratings.length} ratings`);
+    console.log(`Split at ${split.cutoff.toISOString()}: ${split.train.length} train / ${split.test.length} test ratings`);
+
+    const source = await trainingSource(movies, split.train, split.cutoff);
+    const strategies = buildStrategies(movies, source);
+    const algorithms = options.algorithms || Object.keys(strategies);
+
+    const reports: AlgorithmReport[] = [];
+    for (const algorithm of algorithms) {
+      const recommend = strategies[algorithm];
+      if (!recommend) {
+        console.warn(`⚠️  Unknown algorithm: ${algorithm}`);
+        continue;
+      }
+      reports.push(await EvaluationService.evaluate(algorithm, recommend, split, movies.length, options.k));
+    }
+
+    const result = {
+      k: options.k,
+      cutoff: split.cutoff,
+      trainRatings: split.train.length,
+      testRatings: split.test.length,
+      reports,
+    };
+
+    console.log('\n' + formatTable(reports, options.k) + '\n');
+    if (options.output) {
+      fs.writeFileSync(path.resolve(options.output), JSON.stringify(result, null, 2));
+      console.log(`📄 Report written to ${options.output}`);
+    } else {
+      console.log(JSON.stringify(result, null, 2));
+    }
+  } catch (error) {
+    console.error('❌ Error evaluating recommendations:', error);
+    process.exitCode = 1;
+  }
+};
+
+// Run if this file is executed directly
+if (require.main === module) {
+  evaluateRecommendations();
+}
+
+export { evaluateRecommendations };
@@ -0,0 +1,26 @@
+import { db } from '../services/database';
+import { RecommendationStore } from '../services/recommendationStore';
+
+const precomputeRecommendations = async (): Promise<void> => {
+  try {
+    await db.connect();
+    console.log('Connected to database');
+
+    console.log('Precomputing recommendation lists for every user...');
+    const { users, recommendations } = await RecommendationStore.refreshAll();
+
+    console.log(`🎉 Stored ${recommendations} recommendations for ${users} users`);
+  } catch (error) {
+    console.error('❌ Error precomputing recommendations:', error);
+    process.exitCode = 1;
+  } finally {
+    await db.disconnect();
+  }
+};
+
+// Run if this file is executed directly
+if (require.main === module) {
+  precomputeRecommendations();
+}
+
+export { precomputeRecommendations };
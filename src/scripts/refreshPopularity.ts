@@ -0,0 +1,26 @@
+import { db } from '../services/database';
+import { PopularityService } from '../services/popularityService';
+
+const refreshPopularity = async (): Promise<void> => {
+  try {
+    await db.connect();
+    console.log('Connected to database');
+
+    console.log('Recomputing popularity and trending scores...');
+    const count = await PopularityService.refresh();
+
+    console.log(`🎉 Scored ${count} movies`);
+  } catch (error) {
+    console.error('❌ Error refreshing popularity scores:', error);
+    process.exitCode = 1;
+  } finally {
+    await db.disconnect();
+  }
+};
+
+// Run if this file is executed directly
+if (require.main === module) {
+  refreshPopularity();
+}
+
+export { refreshPopularity };
@@ -0,0 +1,31 @@
+import { db } from '../services/database';
+import { MatrixFactorizationService, TrainingOptions } from '../services/matrixFactorizationService';
+
+const trainMatrixFactorization = async (): Promise<void> => {
+  try {
+    await db.connect();
+    console.log('Connected to database');
+
+    const options: Partial<TrainingOptions> = {};
+    if (process.env.MF_FACTORS) options.factors = Number(process.env.MF_FACTORS);
+    if (process.env.MF_EPOCHS) options.epochs = Number(process.env.MF_EPOCHS);
+
+    console.log('Training matrix factorization model...');
+    const model = await MatrixFactorizationService.trainAndSave(options);
+
+    console.log(`🎉 Trained ${model.factors}-factor model (training RMSE ${model.rmse.toFixed(3)})`);
+    console.log(`   ${Object.keys(model.userFactors).length} users, ${Object.keys(model.movieFactors).length} movies`);
+  } catch (error) {
+    console.error('❌ Error training matrix factorization model:', error);
+    process.exitCode = 1;
+  } finally {
+    await db.disconnect();
+  }
+};
+
+// Run if this file is executed directly
+if (require.main === module) {
+  trainMatrixFactorization();
+}
+
+export { trainMatrixFactorization };
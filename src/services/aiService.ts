@@ -1,5 +1,10 @@
 import OpenAI from 'openai';
-import { Movie, Rating, Recommendation } from '../types';
+import { Movie, MoviePreferences, Rating, Recommendation, RecommendationFilters } from '../types';
+import { CandidateFilter } from './candidateFilter';
+import { PreferenceScorer } from './preferenceScorer';
+import { ExplanationBuilder } from './explanationBuilder';
+import { PopularityService } from './popularityService';
+import { RecommendationSource, liveSource } from './recommendationSource';
 
 const openai = process.env.OPENAI_API_KEY 
   ? new OpenAI({ apiKey: process.env.OPENAI_API_KEY })
@@ -7,21 +12,33 @@ const openai = process.env.OPENAI_API_KEY
 
 export class AIService {
   static async generateRecommendations(
+    userId: string,
     userRatings: Rating[],
     allMovies: Movie[],
-    likedMovies: Movie[]
+    likedMovies: Movie[],
+    limit = 10,
+    filters: RecommendationFilters = {},
+    source: RecommendationSource = liveSource()
   ): Promise<Recommendation[]> {
+    let candidates = CandidateFilter.apply(allMovies, userRatings, filters);
+    let preferences: MoviePreferences | undefined;
+
     try {
+      candidates = await CandidateFilter.forUser(userId, allMovies, userRatings, filters, source);
+      preferences = (await source.data.getUserById(userId))?.preferences;
+
       if (likedMovies.length === 0) {
-        return this.getPopularMovies(allMovies);
+        return PreferenceScorer.hasPreferences(preferences)
+          ? PreferenceScorer.rankByPreferences(candidates, preferences, limit)
+          : this.getPopularMovies(candidates, limit, source);
       }
 
-      if (!openai) {
-        console.warn('OpenAI API key not configured, using fallback recommendations');
-        return this.getFallbackRecommendations(likedMovies, allMovies);
+      if (!openai || !source.remote) {
+        if (source.remote) console.warn('OpenAI API key not configured, using fallback recommendations');
+        return this.getFallbackRecommendations(likedMovies, candidates, limit, preferences);
       }
 
-      const prompt = this.buildRecommendationPrompt(likedMovies, allMovies);
+      const prompt = this.buildRecommendationPrompt(likedMovies, candidates, limit, preferences);
       
       const completion = await openai.chat.completions.create({
         model: "gpt-3.5-turbo",
@@ -44,18 +61,34 @@ export class AIService {
         throw new Error('No response from OpenAI');
       }
 
-      const recommendations = this.parseAIResponse(response, allMovies);
-      return recommendations.slice(0, 10); // Limit to top 10
+      const recommendations = PreferenceScorer.apply(this.parseAIResponse(response, candidates, likedMovies), preferences);
+      return recommendations.slice(0, limit);
     } catch (error) {
       console.error('AI recommendation error:', error);
-      return this.getFallbackRecommendations(likedMovies, allMovies);
+      return this.getFallbackRecommendations(likedMovies, candidates, limit, preferences);
     }
   }
 
-  private static buildRecommendationPrompt(likedMovies: Movie[], allMovies: Movie[]): string {
+  private static buildRecommendationPrompt(
+    likedMovies: Movie[],
+    allMovies: Movie[],
+    limit: number,
+    preferences?: MoviePreferences
+  ): string {
     const likedGenres = this.extractGenres(likedMovies);
     const likedYears = likedMovies.map(m => m.year);
     const avgYear = Math.round(likedYears.reduce((a, b) => a + b, 0) / likedYears.length);
+    const statedPreferences: string[] = [];
+
+    if (preferences?.likedGenres.length) {
+      statedPreferences.push(`- Favourite genres: ${preferences.likedGenres.join(', ')}`);
+    }
+    if (preferences?.dislikedGenres.length) {
+      statedPreferences.push(`- Avoid genres: ${preferences.dislikedGenres.join(', ')}`);
+    }
+    if (preferences?.preferredYearRange) {
+      statedPreferences.push(`- Preferred years: ${preferences.preferredYearRange.min}-${preferences.preferredYearRange.max}`);
+    }
 
     return `
 Based on these liked movies:
@@ -64,8 +97,8 @@ ${likedMovies.map(m => `- ${m.title} (${m.year}) - Genres: ${m.genre.join(', ')}
 User seems to prefer:
 - Genres: ${likedGenres.join(', ')}
 - Average year preference: ${avgYear}
-
-Please recommend 10 movies from this available list:
+${statedPreferences.length > 0 ? `\nUser has told us:\n${statedPreferences.join('\n')}\n` : ''}
+Please recommend ${limit} movies from this available list:
 ${allMovies.map(m => `${m.id}: ${m.title} (${m.year}) - ${m.genre.join(', ')}`).join('\n')}
 
 Return recommendations as JSON array with this format:
@@ -81,7 +114,7 @@ Focus on genre similarity, year proximity, and thematic connections. Score shoul
     `;
   }
 
-  private static parseAIResponse(response: string, allMovies: Movie[]): Recommendation[] {
+  private static parseAIResponse(response: string, allMovies: Movie[], likedMovies: Movie[]): Recommendation[] {
     try {
       const cleanResponse = response.replace(/```json\n?|\n?```/g, '').trim();
       const aiRecommendations = JSON.parse(cleanResponse);
@@ -91,10 +124,16 @@ Focus on genre similarity, year proximity, and thematic connections. Score shoul
           const movie = allMovies.find(m => m.id === rec.movieId);
           if (!movie) return null;
 
+          const score = Math.max(0.1, Math.min(1.0, rec.score || 0.5));
           return {
             movie,
-            score: Math.max(0.1, Math.min(1.0, rec.score || 0.5)),
+            score,
             reason: rec.reason || 'AI recommended based on your preferences',
+            explanation: ExplanationBuilder.create('ai', 'ai', score, {
+              seedMovies: likedMovies.map(liked => ExplanationBuilder.seed(liked)),
+              matchedGenres: ExplanationBuilder.matchedGenres(movie, likedMovies),
+              matchedDirector: ExplanationBuilder.matchedDirector(movie, likedMovies),
+            }),
           };
         })
         .filter(Boolean)
@@ -105,7 +144,12 @@ Focus on genre similarity, year proximity, and thematic connections. Score shoul
     }
   }
 
-  private static getFallbackRecommendations(likedMovies: Movie[], allMovies: Movie[]): Recommendation[] {
+  private static getFallbackRecommendations(
+    likedMovies: Movie[],
+    allMovies: Movie[],
+    limit: number,
+    preferences?: MoviePreferences
+  ): Recommendation[] {
     const likedGenres = this.extractGenres(likedMovies);
     const avgYear = likedMovies.length > 0 
       ? Math.round(likedMovies.map(m => m.year).reduce((a, b) => a + b, 0) / likedMovies.length)
@@ -115,7 +159,7 @@ Focus on genre similarity, year proximity, and thematic connections. Score shoul
       .filter(movie => !likedMovies.some(liked => liked.id === movie.id))
       .map(movie => {
         let score = 0.1;
-        let reasons = [];
+        const reasons = [];
 
         // Genre similarity
         const genreMatch = movie.genre.some(g => likedGenres.includes(g));
@@ -138,27 +182,39 @@ Focus on genre similarity, year proximity, and thematic connections. Score shoul
           score += 0.1;
         }
 
+        const contentScore = score;
+
+        // Stated preferences
+        const adjustment = PreferenceScorer.adjustment(movie, preferences);
+        score += adjustment;
+
+        let explanation = ExplanationBuilder.create('ai', 'content', contentScore, {
+          matchedGenres: movie.genre.filter(g => likedGenres.includes(g)),
+          matchedDirector: ExplanationBuilder.matchedDirector(movie, likedMovies),
+        });
+        if (adjustment !== 0) {
+          explanation = ExplanationBuilder.addSignal(explanation, { source: 'preferences', weight: 1, score: adjustment });
+        }
+
         return {
           movie,
-          score: Math.min(score, 1.0),
+          score: Math.max(0, Math.min(score, 1.0)),
           reason: reasons.length > 0 
             ? `Recommended due to ${reasons.join(' and ')}`
             : 'Popular choice',
+          explanation,
         };
       })
       .sort((a, b) => b.score - a.score)
-      .slice(0, 10);
+      .slice(0, limit);
   }
 
-  private static getPopularMovies(allMovies: Movie[]): Recommendation[] {
-    return allMovies
-      .sort((a, b) => b.year - a.year) // Sort by newest first
-      .slice(0, 10)
-      .map((movie, index) => ({
-        movie,
-        score: 0.8 - (index * 0.05), // Decreasing score
-        reason: 'Popular recent movie',
-      }));
+  private static getPopularMovies(
+    allMovies: Movie[],
+    limit: number,
+    source: RecommendationSource
+  ): Promise<Recommendation[]> {
+    return PopularityService.recommend(allMovies, limit, source);
   }
 
   private static extractGenres(movies: Movie[]): string[] {
@@ -0,0 +1,40 @@
+import { BanditArmStats } from '../types';
+import { banditService } from './banditService';
+
+// With the default BANDIT_PRIOR_STRENGTH of 10 lists
+describe('BanditService.posterior', () => {
+  const stats = (pulls: number, reward: number): BanditArmStats => ({ arm: 'hybrid', pulls, reward });
+
+  it('is uniform for an arm nobody has tried', () => {
+    expect(banditService.posterior()).toEqual({ alpha: 1, beta: 1 });
+  });
+
+  it('counts the user\'s own lists in full', () => {
+    // Totals include the user's own lists
+    expect(banditService.posterior(stats(4, 3), stats(4, 3))).toEqual({ alpha: 4, beta: 2 });
+  });
+
+  it('shrinks other users\' statistics to the prior strength', () => {
+    const posterior = banditService.posterior(stats(100, 50));
+
+    expect(posterior.alpha).toBeCloseTo(6);
+    expect(posterior.beta).toBeCloseTo(6);
+  });
+
+  it('keeps a small amount of other users\' experience as is', () => {
+    expect(banditService.posterior(stats(5, 4))).toEqual({ alpha: 5, beta: 2 });
+  });
+
+  it('adds the user\'s own lists on top of the shrunk prior', () => {
+    const posterior = banditService.posterior(stats(104, 53), stats(4, 3));
+
+    expect(posterior.alpha).toBeCloseTo(9);
+    expect(posterior.beta).toBeCloseTo(7);
+  });
+
+  it('never has more reward than lists', () => {
+    const posterior = banditService.posterior(stats(2, 5));
+
+    expect(posterior).toEqual({ alpha: 3, beta: 1 });
+  });
+});
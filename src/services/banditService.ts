@@ -0,0 +1,265 @@
+import { z } from 'zod';
+import { BanditArmStats, BanditArmSummary, BanditPolicy, BanditRewardSignal, Rating } from '../types';
+import { db } from './database';
+import { NegativeProfile } from './negativeProfile';
+import { recommenderRegistry } from './recommenders';
+
+export const BANDIT_POLICIES: BanditPolicy[] = ['off', 'thompson', 'epsilon_greedy'];
+
+const loadPolicy = (): BanditPolicy => {
+  const policy = process.env.BANDIT_POLICY as BanditPolicy | undefined;
+  if (!policy) {
+    return 'off';
+  }
+  if (!BANDIT_POLICIES.includes(policy)) {
+    console.error(`Invalid BANDIT_POLICY "${policy}", using off`);
+    return 'off';
+  }
+  return policy;
+};
+
+const DEFAULT_REWARDS: Record<BanditRewardSignal, number> = {
+  liked_rating: 1,
+  rating: 0.3,
+  disliked_rating: -0.3,
+  watchlist_add: 0.5,
+  dismiss: -0.5,
+};
+const DEFAULT_ARMS = ['hybrid', 'collaborative', 'content', 'item', 'mf', 'embedding'];
+
+const rewardsSchema = z.record(
+  z.enum(['liked_rating', 'rating', 'disliked_rating', 'watchlist_add', 'dismiss']),
+  z.number().min(-1).max(1)
+);
+
+// Reward of each signal; a list's total is kept within 0-1.
+// Override with a JSON object in BANDIT_REWARDS, e.g. {"watchlist_add": 0.8}
+const loadRewards = (): Record<BanditRewardSignal, number> => {
+  if (!process.env.BANDIT_REWARDS) {
+    return DEFAULT_REWARDS;
+  }
+
+  try {
+    return { ...DEFAULT_REWARDS, ...rewardsSchema.parse(JSON.parse(process.env.BANDIT_REWARDS)) };
+  } catch (error) {
+    console.error('Invalid BANDIT_REWARDS, using defaults:', error);
+    return DEFAULT_REWARDS;
+  }
+};
+
+// Algorithms the bandit picks from; ai is left out by default as every list costs an API call
+const loadArms = (): string[] => {
+  if (!process.env.BANDIT_ARMS) {
+    return DEFAULT_ARMS;
+  }
+
+  const arms = z.array(z.string().min(1)).min(1).safeParse(
+    process.env.BANDIT_ARMS.split(',').map(arm => arm.trim()).filter(Boolean)
+  );
+  if (!arms.success) {
+    console.error(`Invalid BANDIT_ARMS "${process.env.BANDIT_ARMS}", using defaults`);
+    return DEFAULT_ARMS;
+  }
+  return arms.data;
+};
+
+const loadNumber = (name: string, schema: z.ZodNumber, fallback: number): number => {
+  const value = process.env[name];
+  if (!value) {
+    return fallback;
+  }
+
+  const parsed = schema.safeParse(Number(value));
+  if (!parsed.success) {
+    console.error(`Invalid ${name} "${value}", using ${fallback}`);
+    return fallback;
+  }
+  return parsed.data;
+};
+
+const POLICY = loadPolicy();
+const REWARDS = loadRewards();
+const ARMS = loadArms();
+// epsilon_greedy: share of random picks
+const EPSILON = loadNumber('BANDIT_EPSILON', z.number().min(0).max(1), 0.1);
+// Global experience a user starts from, in lists; their own lists outweigh it over time
+const PRIOR_STRENGTH = loadNumber('BANDIT_PRIOR_STRENGTH', z.number().finite().min(0), 10);
+// Feedback arriving later than this is not credited to the list
+const REWARD_WINDOW_MS = loadNumber('BANDIT_REWARD_WINDOW_HOURS', z.number().finite().positive(), 72) * 60 * 60 * 1000;
+const TOTALS_RELOAD_INTERVAL = 10 * 60 * 1000;
+
+const sampleGaussian = (): number =>
+  Math.sqrt(-2 * Math.log(1 - Math.random())) * Math.cos(2 * Math.PI * Math.random());
+
+// Marsaglia-Tsang
+const sampleGamma = (shape: number): number => {
+  if (shape < 1) {
+    return sampleGamma(shape + 1) * Math.pow(Math.random(), 1 / shape);
+  }
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let x: number;
+    let v: number;
+    do {
+      x = sampleGaussian();
+      v = 1 + c * x;
+    } while (v <= 0);
+    v = v * v * v;
+    const u = Math.random();
+    if (u < 1 - 0.0331 * x ** 4 || Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) {
+      return d * v;
+    }
+  }
+};
+
+const sampleBeta = (alpha: number, beta: number): number => {
+  const x = sampleGamma(alpha);
+  return x / (x + sampleGamma(beta));
+};
+
+interface Posterior {
+  alpha: number;
+  beta: number;
+}
+
+// Picks the algorithm of a user's recommendation list from the registered ones, learning
+// from how the user responds to the movies of earlier lists. Each list served is a pull;
+// its reward (0-1) comes from later ratings, watchlist adds and dismisses of its movies.
+class BanditService {
+  private totals: Map<string, BanditArmStats> | null = null;
+  private loadedAt = 0;
+
+  getPolicy(): BanditPolicy {
+    return POLICY;
+  }
+
+  isEnabled(): boolean {
+    return POLICY !== 'off';
+  }
+
+  // The arm for the user's next list, or null when no arm is available
+  async choose(userId: string): Promise<string | null> {
+    const arms = await this.availableArms();
+    if (arms.length === 0) return null;
+
+    const totals = await this.getTotals();
+    const own = new Map((await db.getUserBanditArms(userId)).map(stats => [stats.arm, stats]));
+    const posteriors = arms.map(arm => ({ arm, ...this.posterior(totals.get(arm), own.get(arm)) }));
+
+    if (POLICY === 'epsilon_greedy') {
+      if (Math.random() < EPSILON) {
+        return arms[Math.floor(Math.random() * arms.length)];
+      }
+      return this.best(posteriors, p => p.alpha / (p.alpha + p.beta));
+    }
+    return this.best(posteriors, p => sampleBeta(p.alpha, p.beta));
+  }
+
+  async recordPull(userId: string, arm: string, movieIds: string[]): Promise<void> {
+    try {
+      await db.recordBanditPull(userId, arm, movieIds);
+    } catch (error) {
+      // Never fail a recommendation request because bandit bookkeeping failed
+      console.error('Failed to record bandit pull:', error);
+    }
+  }
+
+  // Credit the latest list that recommended the movie, if it is recent enough
+  async reward(userId: string, movieId: string, signal: BanditRewardSignal): Promise<void> {
+    if (!this.isEnabled()) return;
+    try {
+      const pull = await db.getLatestBanditPull(userId, movieId, new Date(Date.now() - REWARD_WINDOW_MS));
+      if (!pull) return;
+
+      const reward = Math.max(0, Math.min(1, pull.reward + (REWARDS[signal] ?? 0)));
+      if (reward !== pull.reward) {
+        await db.addBanditReward(pull, reward - pull.reward);
+      }
+    } catch (error) {
+      console.error('Failed to record bandit reward:', error);
+    }
+  }
+
+  ratingSignal(rating: Rating): BanditRewardSignal {
+    if (rating.liked && rating.rating >= 4) return 'liked_rating';
+    return NegativeProfile.isDisliked(rating) ? 'disliked_rating' : 'rating';
+  }
+
+  // Global statistics of every configured arm, plus the user's own when given
+  async getSummary(userId?: string): Promise<{ policy: BanditPolicy; arms: BanditArmSummary[] }> {
+    this.totals = null; // Admins see current totals, not the cached ones
+    const totals = await this.getTotals();
+    const available = new Set(await this.availableArms());
+    const own = userId
+      ? new Map((await db.getUserBanditArms(userId)).map(stats => [stats.arm, stats]))
+      : null;
+
+    const names = Array.from(new Set([...ARMS, ...totals.keys()]));
+    const arms = names.map(arm => {
+      const stats = totals.get(arm) || { arm, pulls: 0, reward: 0, users: 0 };
+      const summary: BanditArmSummary = {
+        ...stats,
+        available: available.has(arm),
+        meanReward: stats.pulls > 0 ? stats.reward / stats.pulls : 0,
+      };
+      if (own) {
+        const posterior = this.posterior(stats, own.get(arm));
+        summary.user = {
+          pulls: own.get(arm)?.pulls || 0,
+          reward: own.get(arm)?.reward || 0,
+          expectedReward: posterior.alpha / (posterior.alpha + posterior.beta),
+        };
+      }
+      return summary;
+    });
+    return { policy: POLICY, arms };
+  }
+
+  private async availableArms(): Promise<string[]> {
+    const arms: string[] = [];
+    for (const name of ARMS) {
+      const recommender = recommenderRegistry.get(name);
+      if (!recommender) continue;
+      if (recommender.isAvailable && !await recommender.isAvailable()) continue;
+      arms.push(name);
+    }
+    return arms;
+  }
+
+  private async getTotals(): Promise<Map<string, BanditArmStats>> {
+    if (!this.totals || Date.now() - this.loadedAt > TOTALS_RELOAD_INTERVAL) {
+      this.totals = new Map((await db.getBanditArmTotals()).map(stats => [stats.arm, stats]));
+      this.loadedAt = Date.now();
+    }
+    return this.totals;
+  }
+
+  // Beta posterior of an arm's reward rate for one user: a uniform prior, the other users'
+  // statistics shrunk to at most PRIOR_STRENGTH lists, then the user's own lists
+  posterior(total?: BanditArmStats, own?: BanditArmStats): Posterior {
+    const otherPulls = Math.max(0, (total?.pulls || 0) - (own?.pulls || 0));
+    const otherReward = Math.max(0, (total?.reward || 0) - (own?.reward || 0));
+    const scale = otherPulls > PRIOR_STRENGTH ? PRIOR_STRENGTH / otherPulls : 1;
+
+    const pulls = otherPulls * scale + (own?.pulls || 0);
+    const reward = Math.min(pulls, otherReward * scale + (own?.reward || 0));
+    return { alpha: 1 + reward, beta: 1 + pulls - reward };
+  }
+
+  private best<T extends { arm: string }>(items: T[], value: (item: T) => number): string {
+    let best = items[0];
+    let bestValue = -Infinity;
+    items.forEach(item => {
+      const v = value(item);
+      if (v > bestValue) {
+        best = item;
+        bestValue = v;
+      }
+    });
+    return best.arm;
+  }
+}
+
+// Export singleton instance
+export const banditService = new BanditService();
@@ -173,6 +173,11 @@ class CacheService {
   onUserRating(userId: string): void {
     this.invalidateUserRecommendations(userId);
   }
+
+  onUserPreferencesUpdate(userId: string): void {
+    this.invalidateUser(userId);
+    this.invalidateUserRecommendations(userId);
+  }
 }
 
 // Export singleton instance
@@ -0,0 +1,87 @@
+import { Movie, Rating, RecommendationFilters, RecommendationFeedback } from '../types';
+import { RecommendationContext } from './recommendationContext';
+import { RecommendationSource, liveSource } from './recommendationSource';
+
+export class CandidateFilter {
+  // Candidates for a user, honouring their dismiss/snooze/not-interested feedback and the
+  // movies they watched without rating them, e.g. movie-night winners
+  static async forUser(
+    userId: string,
+    allMovies: Movie[],
+    userRatings: Rating[],
+    filters: RecommendationFilters = {},
+    source: RecommendationSource = liveSource()
+  ): Promise<Movie[]> {
+    const feedback = await source.data.getUserFeedback(userId);
+    const watchedMovieIds = await source.data.getWatchedMovieIds(userId);
+    return this.apply(allMovies, userRatings, filters, feedback, watchedMovieIds);
+  }
+
+  // Candidates for the fallback list of a strategy that failed. The user's exclusions are
+  // loaded again; if that fails too, nothing is recommended rather than movies they've seen.
+  static async forFallback(
+    userId: string,
+    allMovies: Movie[],
+    filters: RecommendationFilters = {},
+    source: RecommendationSource = liveSource()
+  ): Promise<Movie[]> {
+    try {
+      const userRatings = await source.data.getUserRatings(userId);
+      return await this.forUser(userId, allMovies, userRatings, filters, source);
+    } catch (error) {
+      console.error('Candidate filter error:', error);
+      return [];
+    }
+  }
+
+  // Narrow the catalog to the movies a strategy is allowed to score.
+  // Filtering happens before ranking so every strategy can still fill `limit`.
+  static apply(
+    allMovies: Movie[],
+    userRatings: Rating[],
+    filters: RecommendationFilters = {},
+    feedback: RecommendationFeedback[] = [],
+    watchedMovieIds: string[] = []
+  ): Movie[] {
+    const { genres, excludeWatched = true, maxRuntime, mood, era, language } = filters;
+    let { minYear, maxYear } = filters;
+    const seenMovieIds = new Set([...userRatings.map(r => r.movieId), ...watchedMovieIds]);
+    const wantedGenres = genres && genres.length > 0
+      ? genres.map(g => g.toLowerCase())
+      : null;
+
+    const hiddenMovieIds = new Set(
+      feedback.filter(f => f.type !== 'not_interested' && f.movieId).map(f => f.movieId as string)
+    );
+    const unwantedGenres = feedback
+      .filter(f => f.type === 'not_interested' && f.genre)
+      .map(f => (f.genre as string).toLowerCase());
+    const unwantedDirectors = feedback
+      .filter(f => f.type === 'not_interested' && f.director)
+      .map(f => (f.director as string).toLowerCase());
+
+    // An era narrows any explicit year range
+    const eraRange = era ? RecommendationContext.eraRange(era) : null;
+    if (eraRange?.minYear !== undefined) minYear = Math.max(minYear ?? eraRange.minYear, eraRange.minYear);
+    if (eraRange?.maxYear !== undefined) maxYear = Math.min(maxYear ?? eraRange.maxYear, eraRange.maxYear);
+    const moodProfile = mood ? RecommendationContext.getMood(mood) : undefined;
+    // Movies without a runtime are judged by a typical runtime for their genre
+    const runtimeOf = maxRuntime !== undefined ? RecommendationContext.runtimeEstimator(allMovies) : null;
+
+    return allMovies.filter(movie => {
+      if (excludeWatched && seenMovieIds.has(movie.id)) return false;
+      if (hiddenMovieIds.has(movie.id)) return false;
+      if (minYear !== undefined && movie.year < minYear) return false;
+      if (maxYear !== undefined && movie.year > maxYear) return false;
+      if (wantedGenres && !movie.genre.some(g => wantedGenres.includes(g.toLowerCase()))) {
+        return false;
+      }
+      if (movie.genre.some(g => unwantedGenres.includes(g.toLowerCase()))) return false;
+      if (movie.director && unwantedDirectors.includes(movie.director.toLowerCase())) return false;
+      if (moodProfile && !RecommendationContext.matchesMood(movie, moodProfile)) return false;
+      if (language && language.length > 0 && !RecommendationContext.matchesLanguage(movie, language)) return false;
+      if (runtimeOf && maxRuntime !== undefined && (runtimeOf(movie) ?? 0) > maxRuntime) return false;
+      return true;
+    });
+  }
+}
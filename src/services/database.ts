@@ -1,5 +1,58 @@
 import { PrismaClient } from '@prisma/client';
-import { Movie, User, Rating, WatchlistItem } from '../types';
+import {
+  Movie,
+  User,
+  Rating,
+  WatchlistItem,
+  MovieSimilarity,
+  UserNeighbour,
+  UserSimilarityMetric,
+  MovieTextVector,
+  MovieEmbedding,
+  MovieScore,
+  FactorModel,
+  MoviePreferences,
+  ExperimentVariantSummary,
+  RecommendationFeedback,
+  InteractionEvent,
+  BanditArmStats,
+  BanditPull,
+  Contact,
+  RecommendationImpression,
+  RecommendationQuality,
+  VotingSession,
+  VotingCandidate,
+  VotingMethod,
+  VotingTally,
+  Recommendation,
+  StoredRecommendations,
+} from '../types';
+
+// Relations loaded with every voting session
+const VOTING_SESSION_INCLUDE = {
+  candidates: { orderBy: { position: 'asc' as const } },
+  participants: true,
+};
+
+// What the recommenders read (and the neighbour lists they cache). A RecommendationSource
+// passes it to them, so they can also run on e.g. an offline evaluation's training split.
+export type RecommendationDataSource = Pick<DatabaseService,
+  | 'getAllRatings'
+  | 'getUserRatings'
+  | 'getRatingsForUsers'
+  | 'getUserById'
+  | 'getUserNeighbours'
+  | 'replaceUserNeighbours'
+  | 'getMovieSimilarities'
+  | 'getLatestFactorModel'
+  | 'getUserFeedback'
+  | 'getWatchedMovieIds'
+  | 'getUserInteractions'
+  | 'getInteractionsForUsers'
+  | 'getMovieTextVectors'
+  | 'getMovieEmbeddings'
+  | 'getMovieScores'
+>;
 
 class DatabaseService {
   private static instance: DatabaseService;
@@ -39,11 +92,20 @@ class DatabaseService {
         username: userData.username,
         email: userData.email,
         password: userData.password,
+        ...this.convertPreferencesToDbFields(userData.preferences),
       },
     });
     return this.convertDbUserToUser(dbUser);
   }
 
+  async updateUserPreferences(userId: string, preferences: MoviePreferences): Promise<User> {
+    const dbUser = await this.prisma.user.update({
+      where: { id: userId },
+      data: this.convertPreferencesToDbFields(preferences),
+    });
+    return this.convertDbUserToUser(dbUser);
+  }
+
   async getUserById(id: string): Promise<User | null> {
     const dbUser = await this.prisma.user.findUnique({
       where: { id },
@@ -88,6 +150,13 @@ class DatabaseService {
     return dbMovie ? this.convertDbMovieToMovie(dbMovie) : null;
   }
 
+  async getMoviesByIds(ids: string[]): Promise<Movie[]> {
+    const dbMovies = await this.prisma.movie.findMany({
+      where: { id: { in: ids } },
+    });
+    return dbMovies.map(this.convertDbMovieToMovie);
+  }
+
   async createMovie(movieData: Omit<Movie, 'id' | 'createdAt' | 'updatedAt'>): Promise<Movie> {
     const dbMovie = await this.prisma.movie.create({
       data: {
@@ -239,6 +308,21 @@ class DatabaseService {
     return dbRatings.map(this.convertDbRatingToRating);
   }
 
+  async getRatingsForUsers(userIds: string[]): Promise<Rating[]> {
+    const dbRatings = await this.prisma.rating.findMany({
+      where: { userId: { in: userIds } },
+    });
+    return dbRatings.map(this.convertDbRatingToRating);
+  }
+
+  async getMovieRatingCounts(): Promise<Map<string, number>> {
+    const counts = await this.prisma.rating.groupBy({
+      by: ['movieId'],
+      _count: { _all: true },
+    });
+    return new Map(counts.map((row: any) => [row.movieId, row._count._all]));
+  }
+
   async getAllUsers(): Promise<User[]> {
     const dbUsers = await this.prisma.user.findMany();
     return dbUsers.map(this.convertDbUserToUser);
@@ -256,6 +340,7 @@ class DatabaseService {
       update: {
         priority: watchlistData.priority,
         notes: watchlistData.notes,
+        watchedAt: null, // Adding a watched movie again puts it back on the list
       },
       create: {
         userId: watchlistData.userId,
@@ -278,22 +363,671 @@ class DatabaseService {
     });
   }
 
+  // Movies still to watch; watched items are kept only to exclude them from recommendations
   async getUserWatchlist(userId: string): Promise<WatchlistItem[]> {
     const dbWatchlistItems = await this.prisma.watchlistItem.findMany({
-      where: { userId },
+      where: { userId, watchedAt: null },
       orderBy: { addedAt: 'desc' },
     });
     return dbWatchlistItems.map(this.convertDbWatchlistItemToWatchlistItem);
   }
 
+  async getAllWatchlistItems(): Promise<WatchlistItem[]> {
+    const dbWatchlistItems = await this.prisma.watchlistItem.findMany({
+      where: { watchedAt: null },
+    });
+    return dbWatchlistItems.map(this.convertDbWatchlistItemToWatchlistItem);
+  }
+
+  async getWatchedMovieIds(userId: string): Promise<string[]> {
+    const dbWatchlistItems = await this.prisma.watchlistItem.findMany({
+      where: { userId, watchedAt: { not: null } },
+      select: { movieId: true },
+    });
+    return dbWatchlistItems.map((item: any) => item.movieId);
+  }
+
+  // Adds the movie to each user's watchlist if needed and marks it as watched
+  // Movie similarity operations
+  async replaceMovieSimilarities(similarities: Omit<MovieSimilarity, 'updatedAt'>[]): Promise<void> {
+    await this.prisma.$transaction([
+      this.prisma.movieSimilarity.deleteMany(),
+      this.prisma.movieSimilarity.createMany({ data: similarities }),
+    ]);
+  }
+
+  async getMovieSimilarities(movieIds: string[]): Promise<MovieSimilarity[]> {
+    const dbSimilarities = await this.prisma.movieSimilarity.findMany({
+      where: { movieId: { in: movieIds } },
+      orderBy: { score: 'desc' },
+    });
+    return dbSimilarities.map(this.convertDbMovieSimilarityToMovieSimilarity);
+  }
+
+  // User neighbour operations
+  async replaceAllUserNeighbours(neighbours: Omit<UserNeighbour, 'updatedAt'>[]): Promise<void> {
+    await this.prisma.$transaction([
+      this.prisma.userNeighbour.deleteMany(),
+      this.prisma.userNeighbour.createMany({ data: neighbours }),
+    ]);
+  }
+
+  async replaceUserNeighbours(userId: string, neighbours: Omit<UserNeighbour, 'updatedAt'>[]): Promise<void> {
+    await this.prisma.$transaction([
+      this.prisma.userNeighbour.deleteMany({ where: { userId } }),
+      this.prisma.userNeighbour.createMany({ data: neighbours }),
+    ]);
+  }
+
+  async getUserNeighbours(userId: string, metric: UserSimilarityMetric): Promise<UserNeighbour[]> {
+    const dbNeighbours = await this.prisma.userNeighbour.findMany({
+      where: { userId, metric },
+      orderBy: { score: 'desc' },
+    });
+    return dbNeighbours.map(this.convertDbUserNeighbourToUserNeighbour);
+  }
+
+  // Rows of other users' lists that name `neighbourId`
+  async getNeighbourListings(neighbourId: string): Promise<UserNeighbour[]> {
+    const dbNeighbours = await this.prisma.userNeighbour.findMany({ where: { neighbourId } });
+    return dbNeighbours.map(this.convertDbUserNeighbourToUserNeighbour);
+  }
+
+  async updateNeighbourListings(
+    neighbourId: string,
+    updates: Array<{ userId: string; score: number; coRatings: number }>,
+    removedUserIds: string[]
+  ): Promise<void> {
+    await this.prisma.$transaction([
+      ...updates.map(update => this.prisma.userNeighbour.update({
+        where: { userId_neighbourId: { userId: update.userId, neighbourId } },
+        data: { score: update.score, coRatings: update.coRatings },
+      })),
+      this.prisma.userNeighbour.deleteMany({ where: { neighbourId, userId: { in: removedUserIds } } }),
+    ]);
+  }
+
+  // Movie text vector operations
+  async upsertMovieTextVector(vector: Omit<MovieTextVector, 'updatedAt'>): Promise<MovieTextVector> {
+    const dbVector = await this.prisma.movieTextVector.upsert({
+      where: { movieId: vector.movieId },
+      update: { terms: vector.terms, length: vector.length },
+      create: vector,
+    });
+    return this.convertDbMovieTextVectorToMovieTextVector(dbVector);
+  }
+
+  async replaceMovieTextVectors(vectors: Omit<MovieTextVector, 'updatedAt'>[]): Promise<void> {
+    await this.prisma.$transaction([
+      this.prisma.movieTextVector.deleteMany(),
+      this.prisma.movieTextVector.createMany({ data: vectors }),
+    ]);
+  }
+
+  async getMovieTextVectors(): Promise<MovieTextVector[]> {
+    const dbVectors = await this.prisma.movieTextVector.findMany();
+    return dbVectors.map(this.convertDbMovieTextVectorToMovieTextVector);
+  }
+
+  // Movie embedding operations
+  async upsertMovieEmbedding(embedding: Omit<MovieEmbedding, 'updatedAt'>): Promise<MovieEmbedding> {
+    const dbEmbedding = await this.prisma.movieEmbedding.upsert({
+      where: {
+        movieId_model: {
+          movieId: embedding.movieId,
+          model: embedding.model,
+        },
+      },
+      update: {
+        dimensions: embedding.dimensions,
+        vector: embedding.vector,
+      },
+      create: embedding,
+    });
+    return this.convertDbMovieEmbeddingToMovieEmbedding(dbEmbedding);
+  }
+
+  async getMovieEmbeddings(model: string): Promise<MovieEmbedding[]> {
+    const dbEmbeddings = await this.prisma.movieEmbedding.findMany({
+      where: { model },
+    });
+    return dbEmbeddings.map(this.convertDbMovieEmbeddingToMovieEmbedding);
+  }
+
+  // Movie score operations
+  async replaceMovieScores(scores: Omit<MovieScore, 'updatedAt'>[]): Promise<void> {
+    await this.prisma.$transaction([
+      this.prisma.movieScore.deleteMany(),
+      this.prisma.movieScore.createMany({ data: scores }),
+    ]);
+  }
+
+  async getMovieScores(): Promise<MovieScore[]> {
+    const dbScores = await this.prisma.movieScore.findMany();
+    return dbScores.map(this.convertDbMovieScoreToMovieScore);
+  }
+
+  // Factor model operations
+  async saveFactorModel(model: Omit<FactorModel, 'id' | 'createdAt'>): Promise<FactorModel> {
+    const dbModel = await this.prisma.factorModel.create({
+      data: {
+        factors: model.factors,
+        globalMean: model.globalMean,
+        rmse: model.rmse,
+        userFactors: model.userFactors,
+        movieFactors: model.movieFactors,
+      },
+    });
+    return this.convertDbFactorModelToFactorModel(dbModel);
+  }
+
+  async getLatestFactorModel(): Promise<FactorModel | null> {
+    const dbModel = await this.prisma.factorModel.findFirst({
+      orderBy: { createdAt: 'desc' },
+    });
+    return dbModel ? this.convertDbFactorModelToFactorModel(dbModel) : null;
+  }
+
+  // Experiment operations
+  async recordExperimentExposure(exposure: {
+    userId: string;
+    experiment: string;
+    variant: string;
+    algorithm: string;
+  }): Promise<void> {
+    await this.prisma.experimentExposure.create({
+      data: exposure,
+    });
+  }
+
+  async getExperimentSummary(experiment: string): Promise<ExperimentVariantSummary[]> {
+    const exposures = await this.prisma.experimentExposure.groupBy({
+      by: ['variant', 'algorithm'],
+      where: { experiment },
+      _count: { _all: true },
+    });
+    const users = await this.prisma.experimentExposure.groupBy({
+      by: ['variant', 'userId'],
+      where: { experiment },
+    });
+
+    return exposures.map((row: any) => ({
+      variant: row.variant,
+      algorithm: row.algorithm,
+      exposures: row._count._all,
+      users: users.filter((u: any) => u.variant === row.variant).length,
+    }));
+  }
+
+  // Recommendation feedback operations
+  async createRecommendationFeedback(
+    feedbackData: Omit<RecommendationFeedback, 'id' | 'createdAt'>
+  ): Promise<RecommendationFeedback> {
+    const dbFeedback = await this.prisma.recommendationFeedback.create({
+      data: {
+        userId: feedbackData.userId,
+        type: feedbackData.type,
+        movieId: feedbackData.movieId,
+        genre: feedbackData.genre,
+        director: feedbackData.director,
+        snoozedUntil: feedbackData.snoozedUntil,
+      },
+    });
+    return this.convertDbFeedbackToFeedback(dbFeedback);
+  }
+
+  // Expired snoozes are left out
+  async getUserFeedback(userId: string): Promise<RecommendationFeedback[]> {
+    const dbFeedback = await this.prisma.recommendationFeedback.findMany({
+      where: {
+        userId,
+        OR: [
+          { snoozedUntil: null },
+          { snoozedUntil: { gt: new Date() } },
+        ],
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+    return dbFeedback.map(this.convertDbFeedbackToFeedback);
+  }
+
+  async deleteRecommendationFeedback(userId: string, id: string): Promise<boolean> {
+    const result = await this.prisma.recommendationFeedback.deleteMany({
+      where: { id, userId },
+    });
+    return result.count > 0;
+  }
+
+  // Interaction event operations
+  // `createdAt` defaults to now
+  async createInteractionEvents(
+    events: Array<Omit<InteractionEvent, 'id' | 'createdAt'> & { createdAt?: Date }>
+  ): Promise<number> {
+    const result = await this.prisma.interactionEvent.createMany({
+      data: events.map(event => ({
+        userId: event.userId,
+        movieId: event.movieId,
+        type: event.type,
+        query: event.query,
+        createdAt: event.createdAt,
+      })),
+    });
+    return result.count;
+  }
+
+  // Newest first; `since` limits how far back events are read
+  async getUserInteractions(userId: string, since?: Date, limit?: number): Promise<InteractionEvent[]> {
+    const dbEvents = await this.prisma.interactionEvent.findMany({
+      where: { userId, createdAt: since ? { gte: since } : undefined },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+    return dbEvents.map(this.convertDbInteractionEventToInteractionEvent);
+  }
+
+  async getInteractionsForUsers(userIds: string[], since?: Date): Promise<InteractionEvent[]> {
+    if (userIds.length === 0) return [];
+    const dbEvents = await this.prisma.interactionEvent.findMany({
+      where: { userId: { in: userIds }, createdAt: since ? { gte: since } : undefined },
+    });
+    return dbEvents.map(this.convertDbInteractionEventToInteractionEvent);
+  }
+
+  // Bandit operations
+  async recordBanditPull(userId: string, arm: string, movieIds: string[]): Promise<void> {
+    await this.prisma.$transaction([
+      this.prisma.banditPull.create({ data: { userId, arm, movieIds } }),
+      this.prisma.banditArm.upsert({
+        where: { userId_arm: { userId, arm } },
+        update: { pulls: { increment: 1 } },
+        create: { userId, arm, pulls: 1 },
+      }),
+    ]);
+  }
+
+  // Latest list served to the user since `since` that contained the movie
+  async getLatestBanditPull(userId: string, movieId: string, since: Date): Promise<BanditPull | null> {
+    const dbPull = await this.prisma.banditPull.findFirst({
+      where: { userId, movieIds: { has: movieId }, createdAt: { gte: since } },
+      orderBy: { createdAt: 'desc' },
+    });
+    return dbPull ? this.convertDbBanditPullToBanditPull(dbPull) : null;
+  }
+
+  async addBanditReward(pull: BanditPull, delta: number): Promise<void> {
+    await this.prisma.$transaction([
+      this.prisma.banditPull.update({
+        where: { id: pull.id },
+        data: { reward: { increment: delta } },
+      }),
+      this.prisma.banditArm.update({
+        where: { userId_arm: { userId: pull.userId, arm: pull.arm } },
+        data: { reward: { increment: delta } },
+      }),
+    ]);
+  }
+
+  async getUserBanditArms(userId: string): Promise<BanditArmStats[]> {
+    const dbArms = await this.prisma.banditArm.findMany({
+      where: { userId },
+    });
+    return dbArms.map((dbArm: any) => ({ arm: dbArm.arm, pulls: dbArm.pulls, reward: dbArm.reward }));
+  }
+
+  // Statistics of every arm summed over all users
+  async getBanditArmTotals(): Promise<BanditArmStats[]> {
+    const totals = await this.prisma.banditArm.groupBy({
+      by: ['arm'],
+      _sum: { pulls: true, reward: true },
+      _count: { _all: true },
+    });
+    return totals.map((row: any) => ({
+      arm: row.arm,
+      pulls: row._sum.pulls || 0,
+      reward: row._sum.reward || 0,
+      users: row._count._all,
+    }));
+  }
+
+  // Recommendation impression operations
+  async createImpressions(
+    impressions: Array<Pick<RecommendationImpression, 'listId' | 'algorithm' | 'position' | 'movieId' | 'userId'>>
+  ): Promise<void> {
+    await this.prisma.recommendationImpression.createMany({
+      data: impressions,
+      skipDuplicates: true,
+    });
+  }
+
+  async getImpression(listId: string, movieId: string): Promise<RecommendationImpression | null> {
+    const dbImpression = await this.prisma.recommendationImpression.findUnique({
+      where: { listId_movieId: { listId, movieId } },
+    });
+    return dbImpression ? this.convertDbImpressionToImpression(dbImpression) : null;
+  }
+
+  async updateImpression(
+    id: string,
+    data: Partial<Pick<RecommendationImpression, 'clickedAt' | 'convertedAt' | 'conversion'>>
+  ): Promise<RecommendationImpression> {
+    const dbImpression = await this.prisma.recommendationImpression.update({
+      where: { id },
+      data,
+    });
+    return this.convertDbImpressionToImpression(dbImpression);
+  }
+
+  async getRecommendationQuality(since: Date): Promise<RecommendationQuality[]> {
+    const where = { createdAt: { gte: since } };
+    const impressions = await this.prisma.recommendationImpression.groupBy({
+      by: ['algorithm'],
+      where,
+      _count: { _all: true },
+    });
+    const clicks = await this.prisma.recommendationImpression.groupBy({
+      by: ['algorithm'],
+      where: { ...where, clickedAt: { not: null } },
+      _count: { _all: true },
+    });
+    const conversions = await this.prisma.recommendationImpression.groupBy({
+      by: ['algorithm'],
+      where: { ...where, convertedAt: { not: null } },
+      _count: { _all: true },
+    });
+    const lists = await this.prisma.recommendationImpression.groupBy({
+      by: ['algorithm', 'listId'],
+      where,
+    });
+    // Position of the first clicked movie of every list with a click
+    const firstClicks = await this.prisma.recommendationImpression.groupBy({
+      by: ['algorithm', 'listId'],
+      where: { ...where, clickedAt: { not: null } },
+      _min: { position: true },
+    });
+
+    const countOf = (rows: any[], algorithm: string): number =>
+      rows.find((row: any) => row.algorithm === algorithm)?._count._all || 0;
+
+    return impressions.map((row: any) => {
+      const algorithm = row.algorithm;
+      const total = row._count._all;
+      const listCount = lists.filter((list: any) => list.algorithm === algorithm).length;
+      const reciprocalRanks = firstClicks
+        .filter((list: any) => list.algorithm === algorithm)
+        .reduce((sum: number, list: any) => sum + 1 / (list._min.position + 1), 0);
+      const clickCount = countOf(clicks, algorithm);
+      const conversionCount = countOf(conversions, algorithm);
+
+      return {
+        algorithm,
+        lists: listCount,
+        impressions: total,
+        clicks: clickCount,
+        conversions: conversionCount,
+        ctr: total > 0 ? clickCount / total : 0,
+        conversionRate: total > 0 ? conversionCount / total : 0,
+        mrr: listCount > 0 ? reciprocalRanks / listCount : 0,
+      };
+    });
+  }
+
+  // Contact operations
+  // A request to someone who already asked the requester accepts theirs instead
+  async requestContact(requesterId: string, addresseeId: string): Promise<void> {
+    const reverse = await this.prisma.contact.updateMany({
+      where: { requesterId: addresseeId, addresseeId: requesterId, status: 'pending' },
+      data: { status: 'accepted', acceptedAt: new Date() },
+    });
+    if (reverse.count > 0) return;
+
+    await this.prisma.contact.upsert({
+      where: {
+        requesterId_addresseeId: {
+          requesterId,
+          addresseeId,
+        },
+      },
+      update: {},
+      create: { requesterId, addresseeId },
+    });
+  }
+
+  async getUserContacts(userId: string): Promise<Contact[]> {
+    const dbContacts = await this.prisma.contact.findMany({
+      where: { OR: [{ requesterId: userId }, { addresseeId: userId }] },
+      include: {
+        requester: { select: { id: true, username: true } },
+        addressee: { select: { id: true, username: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+    return dbContacts.map((dbContact: any) => this.convertDbContactToContact(dbContact, userId));
+  }
+
+  // Only the addressee can accept; returns false when there is no such pending request
+  async acceptContact(id: string, userId: string): Promise<boolean> {
+    const result = await this.prisma.contact.updateMany({
+      where: { id, addresseeId: userId, status: 'pending' },
+      data: { status: 'accepted', acceptedAt: new Date() },
+    });
+    return result.count > 0;
+  }
+
+  // Either user can remove a contact or withdraw/decline a request
+  async removeContact(id: string, userId: string): Promise<boolean> {
+    const result = await this.prisma.contact.deleteMany({
+      where: { id, OR: [{ requesterId: userId }, { addresseeId: userId }] },
+    });
+    return result.count > 0;
+  }
+
+  // The user's accepted contacts among `identifiers` (user IDs or usernames), in one query
+  async getContactsByIdentifiers(userId: string, identifiers: string[]): Promise<User[]> {
+    const dbUsers = await this.prisma.user.findMany({
+      where: {
+        OR: [{ id: { in: identifiers } }, { username: { in: identifiers } }],
+        AND: {
+          OR: [
+            { sentContactRequests: { some: { addresseeId: userId, status: 'accepted' } } },
+            { receivedContactRequests: { some: { requesterId: userId, status: 'accepted' } } },
+          ],
+        },
+      },
+    });
+    return dbUsers.map(this.convertDbUserToUser);
+  }
+
+  // Voting session operations
+  async createVotingSession(sessionData: {
+    title: string;
+    hostId: string;
+    method: VotingMethod;
+    candidates: VotingCandidate[];
+    participantIds: string[];
+  }): Promise<VotingSession> {
+    const dbSession = await this.prisma.votingSession.create({
+      data: {
+        title: sessionData.title,
+        hostId: sessionData.hostId,
+        method: sessionData.method,
+        candidates: { create: sessionData.candidates },
+        // Invitees take part once they accept; the host from the start
+        participants: {
+          create: sessionData.participantIds.map(userId => ({
+            userId,
+            joinedAt: userId === sessionData.hostId ? new Date() : undefined,
+          })),
+        },
+      },
+      include: VOTING_SESSION_INCLUDE,
+    });
+    return this.convertDbVotingSessionToVotingSession(dbSession);
+  }
+
+  async getVotingSessionById(id: string): Promise<VotingSession | null> {
+    const dbSession = await this.prisma.votingSession.findUnique({
+      where: { id },
+      include: VOTING_SESSION_INCLUDE,
+    });
+    return dbSession ? this.convertDbVotingSessionToVotingSession(dbSession) : null;
+  }
+
+  // Sessions the user hosts or was invited to, newest first
+  async getUserVotingSessions(userId: string): Promise<VotingSession[]> {
+    const dbSessions = await this.prisma.votingSession.findMany({
+      where: { participants: { some: { userId } } },
+      include: VOTING_SESSION_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+    });
+    return dbSessions.map((dbSession: any) => this.convertDbVotingSessionToVotingSession(dbSession));
+  }
+
+  async saveVotingBallot(sessionId: string, userId: string, ballot: string[]): Promise<void> {
+    await this.prisma.votingParticipant.update({
+      where: {
+        sessionId_userId: {
+          sessionId,
+          userId,
+        },
+      },
+      data: { ballot, votedAt: new Date() },
+    });
+  }
+
+  async joinVotingSession(sessionId: string, userId: string): Promise<void> {
+    await this.prisma.votingParticipant.update({
+      where: {
+        sessionId_userId: {
+          sessionId,
+          userId,
+        },
+      },
+      data: { joinedAt: new Date() },
+    });
+  }
+
+  async leaveVotingSession(sessionId: string, userId: string): Promise<void> {
+    await this.prisma.votingParticipant.delete({
+      where: {
+        sessionId_userId: {
+          sessionId,
+          userId,
+        },
+      },
+    });
+  }
+
+  // Returns false when the session was already closed. The winner is marked as watched on
+  // the watchlists of `watchedUserIds` in the same transaction, so either both happen or neither.
+  async closeVotingSession(id: string, tally: VotingTally, watchedUserIds: string[] = []): Promise<boolean> {
+    const closedAt = new Date();
+    return this.prisma.$transaction(async tx => {
+      const result = await tx.votingSession.updateMany({
+        where: { id, status: 'open' },
+        data: {
+          status: 'closed',
+          tally,
+          winnerMovieId: tally.winnerMovieId,
+          closedAt,
+        },
+      });
+      if (result.count === 0) return false;
+
+      const movieId = tally.winnerMovieId;
+      if (movieId) {
+        for (const userId of watchedUserIds) {
+          await tx.watchlistItem.upsert({
+            where: {
+              userId_movieId: {
+                userId,
+                movieId,
+              },
+            },
+            update: { watchedAt: closedAt },
+            create: { userId, movieId, watchedAt: closedAt },
+          });
+        }
+      }
+      return true;
+    });
+  }
+
+  // Stored recommendation operations
+  async replaceStoredRecommendations(
+    userId: string,
+    algorithm: string,
+    recommendations: Recommendation[],
+    computedAt: Date
+  ): Promise<void> {
+    await this.prisma.$transaction([
+      this.prisma.userRecommendation.deleteMany({ where: { userId, algorithm } }),
+      this.prisma.userRecommendation.createMany({
+        data: recommendations.map((rec, position) => ({
+          userId,
+          algorithm,
+          movieId: rec.movie.id,
+          position,
+          score: rec.score,
+          reason: rec.reason,
+          explanation: rec.explanation,
+          computedAt,
+        })),
+      }),
+    ]);
+  }
+
+  async getStoredRecommendations(userId: string, algorithm: string): Promise<StoredRecommendations | null> {
+    const dbRecommendations = await this.prisma.userRecommendation.findMany({
+      where: { userId, algorithm },
+      include: { movie: true },
+      orderBy: { position: 'asc' },
+    });
+    if (dbRecommendations.length === 0) return null;
+
+    return {
+      userId,
+      algorithm,
+      computedAt: dbRecommendations[0].computedAt,
+      recommendations: dbRecommendations.map((dbRec: any) => this.convertDbUserRecommendationToRecommendation(dbRec)),
+    };
+  }
+
   // Conversion methods
   private convertDbUserToUser(dbUser: any): User {
+    const hasPreferences = dbUser.likedGenres || dbUser.dislikedGenres ||
+      dbUser.preferredYearMin != null || dbUser.preferredYearMax != null;
+
     return {
       id: dbUser.id,
       username: dbUser.username,
       email: dbUser.email,
       password: dbUser.password,
       createdAt: dbUser.createdAt,
+      preferences: hasPreferences
+        ? {
+          likedGenres: dbUser.likedGenres ? dbUser.likedGenres.split(',').map((g: string) => g.trim()) : [],
+          dislikedGenres: dbUser.dislikedGenres ? dbUser.dislikedGenres.split(',').map((g: string) => g.trim()) : [],
+          preferredYearRange: dbUser.preferredYearMin != null && dbUser.preferredYearMax != null
+            ? { min: dbUser.preferredYearMin, max: dbUser.preferredYearMax }
+            : undefined,
+        }
+        : undefined,
+    };
+  }
+
+  private convertPreferencesToDbFields(preferences?: Partial<MoviePreferences>): {
+    likedGenres?: string | null;
+    dislikedGenres?: string | null;
+    preferredYearMin?: number | null;
+    preferredYearMax?: number | null;
+  } {
+    if (!preferences) return {};
+
+    return {
+      likedGenres: preferences.likedGenres ? preferences.likedGenres.join(',') : null,
+      dislikedGenres: preferences.dislikedGenres ? preferences.dislikedGenres.join(',') : null,
+      preferredYearMin: preferences.preferredYearRange ? preferences.preferredYearRange.min : null,
+      preferredYearMax: preferences.preferredYearRange ? preferences.preferredYearRange.max : null,
     };
   }
 
@@ -339,6 +1073,169 @@ class DatabaseService {
       priority: dbWatchlistItem.priority as 'low' | 'medium' | 'high',
       notes: dbWatchlistItem.notes,
       addedAt: dbWatchlistItem.addedAt,
+      watchedAt: dbWatchlistItem.watchedAt,
+    };
+  }
+
+  private convertDbMovieSimilarityToMovieSimilarity(dbSimilarity: any): MovieSimilarity {
+    return {
+      movieId: dbSimilarity.movieId,
+      similarMovieId: dbSimilarity.similarMovieId,
+      score: dbSimilarity.score,
+      coRatings: dbSimilarity.coRatings,
+      updatedAt: dbSimilarity.updatedAt,
+    };
+  }
+
+  private convertDbUserNeighbourToUserNeighbour(dbNeighbour: any): UserNeighbour {
+    return {
+      userId: dbNeighbour.userId,
+      neighbourId: dbNeighbour.neighbourId,
+      metric: dbNeighbour.metric as UserSimilarityMetric,
+      score: dbNeighbour.score,
+      coRatings: dbNeighbour.coRatings,
+      updatedAt: dbNeighbour.updatedAt,
+    };
+  }
+
+  private convertDbMovieTextVectorToMovieTextVector(dbVector: any): MovieTextVector {
+    return {
+      movieId: dbVector.movieId,
+      terms: dbVector.terms,
+      length: dbVector.length,
+      updatedAt: dbVector.updatedAt,
+    };
+  }
+
+  private convertDbMovieEmbeddingToMovieEmbedding(dbEmbedding: any): MovieEmbedding {
+    return {
+      movieId: dbEmbedding.movieId,
+      model: dbEmbedding.model,
+      dimensions: dbEmbedding.dimensions,
+      vector: dbEmbedding.vector,
+      updatedAt: dbEmbedding.updatedAt,
+    };
+  }
+
+  private convertDbMovieScoreToMovieScore(dbScore: any): MovieScore {
+    return {
+      movieId: dbScore.movieId,
+      popularity: dbScore.popularity,
+      trending: dbScore.trending,
+      bayesianRating: dbScore.bayesianRating,
+      ratingCount: dbScore.ratingCount,
+      watchlistCount: dbScore.watchlistCount,
+      updatedAt: dbScore.updatedAt,
+    };
+  }
+
+  private convertDbFeedbackToFeedback(dbFeedback: any): RecommendationFeedback {
+    return {
+      id: dbFeedback.id,
+      userId: dbFeedback.userId,
+      type: dbFeedback.type as RecommendationFeedback['type'],
+      movieId: dbFeedback.movieId,
+      genre: dbFeedback.genre,
+      director: dbFeedback.director,
+      snoozedUntil: dbFeedback.snoozedUntil,
+      createdAt: dbFeedback.createdAt,
+    };
+  }
+
+  private convertDbInteractionEventToInteractionEvent(dbEvent: any): InteractionEvent {
+    return {
+      id: dbEvent.id,
+      userId: dbEvent.userId,
+      movieId: dbEvent.movieId,
+      type: dbEvent.type as InteractionEvent['type'],
+      query: dbEvent.query ?? undefined,
+      createdAt: dbEvent.createdAt,
+    };
+  }
+
+  private convertDbBanditPullToBanditPull(dbPull: any): BanditPull {
+    return {
+      id: dbPull.id,
+      userId: dbPull.userId,
+      arm: dbPull.arm,
+      movieIds: dbPull.movieIds,
+      reward: dbPull.reward,
+      createdAt: dbPull.createdAt,
+    };
+  }
+
+  private convertDbImpressionToImpression(dbImpression: any): RecommendationImpression {
+    return {
+      id: dbImpression.id,
+      listId: dbImpression.listId,
+      algorithm: dbImpression.algorithm,
+      position: dbImpression.position,
+      movieId: dbImpression.movieId,
+      userId: dbImpression.userId ?? undefined,
+      clickedAt: dbImpression.clickedAt ?? undefined,
+      convertedAt: dbImpression.convertedAt ?? undefined,
+      conversion: dbImpression.conversion ?? undefined,
+      createdAt: dbImpression.createdAt,
+    };
+  }
+
+  private convertDbUserRecommendationToRecommendation(dbRec: any): Recommendation {
+    return {
+      movie: this.convertDbMovieToMovie(dbRec.movie),
+      score: dbRec.score,
+      reason: dbRec.reason,
+      explanation: dbRec.explanation,
+    };
+  }
+
+  private convertDbContactToContact(dbContact: any, userId: string): Contact {
+    const sent = dbContact.requesterId === userId;
+    const other = sent ? dbContact.addressee : dbContact.requester;
+    return {
+      id: dbContact.id,
+      userId: other.id,
+      username: other.username,
+      status: dbContact.status as Contact['status'],
+      direction: sent ? 'sent' : 'received',
+      createdAt: dbContact.createdAt,
+      acceptedAt: dbContact.acceptedAt ?? undefined,
+    };
+  }
+
+  private convertDbVotingSessionToVotingSession(dbSession: any): VotingSession {
+    return {
+      id: dbSession.id,
+      title: dbSession.title,
+      hostId: dbSession.hostId,
+      method: dbSession.method as VotingMethod,
+      status: dbSession.status as VotingSession['status'],
+      candidates: dbSession.candidates.map((candidate: any) => ({
+        movieId: candidate.movieId,
+        source: candidate.source as VotingCandidate['source'],
+        position: candidate.position,
+      })),
+      participants: dbSession.participants.map((participant: any) => ({
+        userId: participant.userId,
+        ballot: participant.ballot,
+        votedAt: participant.votedAt,
+        joinedAt: participant.joinedAt,
+      })),
+      winnerMovieId: dbSession.winnerMovieId,
+      tally: dbSession.tally,
+      closedAt: dbSession.closedAt,
+      createdAt: dbSession.createdAt,
+    };
+  }
+
+  private convertDbFactorModelToFactorModel(dbModel: any): FactorModel {
+    return {
+      id: dbModel.id,
+      factors: dbModel.factors,
+      globalMean: dbModel.globalMean,
+      rmse: dbModel.rmse,
+      userFactors: dbModel.userFactors,
+      movieFactors: dbModel.movieFactors,
+      createdAt: dbModel.createdAt,
     };
   }
 }
@@ -0,0 +1,75 @@
+import { Movie, Recommendation } from '../types';
+import { DiversityReranker } from './diversityReranker';
+import { ExplanationBuilder } from './explanationBuilder';
+
+const movie = (id: string, genre: string[], year = 2000, director?: string): Movie => ({
+  id,
+  title: id,
+  genre,
+  year,
+  description: '',
+  director,
+});
+
+const recommendation = (movie: Movie, score: number): Recommendation => ({
+  movie,
+  score,
+  reason: '',
+  explanation: ExplanationBuilder.create('test', 'content', score),
+});
+
+const ids = (recommendations: Recommendation[]): string[] => recommendations.map(rec => rec.movie.id);
+
+describe('DiversityReranker', () => {
+  // Two near-identical thrillers ahead of a comedy from another decade
+  const recommendations = [
+    recommendation(movie('thriller1', ['Thriller'], 2001, 'Fincher'), 1),
+    recommendation(movie('thriller2', ['Thriller'], 2003, 'Fincher'), 0.95),
+    recommendation(movie('comedy', ['Comedy'], 1985), 0.7),
+  ];
+
+  describe('poolSize', () => {
+    it('asks for more candidates only when re-ranking', () => {
+      expect(DiversityReranker.poolSize(10, 0)).toBe(10);
+      expect(DiversityReranker.poolSize(10, 0.5)).toBe(30);
+      expect(DiversityReranker.poolSize(100, 0.5)).toBe(150);
+    });
+  });
+
+  describe('rerank', () => {
+    it('keeps the strategy order without diversity', () => {
+      const reranked = DiversityReranker.rerank(recommendations, 2, new Map(), { diversity: 0 });
+
+      expect(ids(reranked)).toEqual(['thriller1', 'thriller2']);
+    });
+
+    it('starts with the most relevant movie', () => {
+      const reranked = DiversityReranker.rerank(recommendations, 1, new Map(), { diversity: 0.5, noveltyWeight: 0 });
+
+      expect(ids(reranked)).toEqual(['thriller1']);
+    });
+
+    it('moves a dissimilar movie ahead of a near-duplicate', () => {
+      const reranked = DiversityReranker.rerank(recommendations, 3, new Map(), { diversity: 0.5, noveltyWeight: 0 });
+
+      expect(ids(reranked)).toEqual(['thriller1', 'comedy', 'thriller2']);
+    });
+
+    it('prefers rarely rated movies when novelty is weighted', () => {
+      const equal = [
+        recommendation(movie('popular', ['Drama'], 1990), 1),
+        recommendation(movie('obscure', ['Drama'], 1990), 1),
+      ];
+      const ratingCounts = new Map([['popular', 500], ['obscure', 2]]);
+      const reranked = DiversityReranker.rerank(equal, 2, ratingCounts, { diversity: 0.5, noveltyWeight: 1 });
+
+      expect(ids(reranked)).toEqual(['obscure', 'popular']);
+    });
+
+    it('returns every movie once, at most `limit` of them', () => {
+      const reranked = DiversityReranker.rerank(recommendations, 10, new Map(), { diversity: 1 });
+
+      expect(ids(reranked).sort()).toEqual(['comedy', 'thriller1', 'thriller2']);
+    });
+  });
+});
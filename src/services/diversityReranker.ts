@@ -0,0 +1,96 @@
+import { Movie, Recommendation } from '../types';
+
+export interface DiversityOptions {
+  // 0 keeps the strategy's order, 1 ignores relevance entirely
+  diversity: number;
+  // Share of the non-relevance term given to novelty rather than dissimilarity
+  noveltyWeight: number;
+  genreWeight: number;
+  directorWeight: number;
+  decadeWeight: number;
+}
+
+export const DEFAULT_DIVERSITY_OPTIONS: DiversityOptions = {
+  diversity: Number(process.env.RECOMMENDATION_DIVERSITY || 0),
+  noveltyWeight: Number(process.env.DIVERSITY_NOVELTY_WEIGHT || 0.3),
+  genreWeight: 0.6,
+  directorWeight: 0.25,
+  decadeWeight: 0.15,
+};
+
+// How many more candidates than requested a strategy should return
+// so the re-ranker has something to choose from.
+const CANDIDATE_POOL_FACTOR = 3;
+const MAX_CANDIDATE_POOL = 150;
+
+export class DiversityReranker {
+  static poolSize(limit: number, diversity: number): number {
+    return diversity > 0 ? Math.min(limit * CANDIDATE_POOL_FACTOR, MAX_CANDIDATE_POOL) : limit;
+  }
+
+  // Maximal Marginal Relevance: repeatedly take the candidate whose relevance,
+  // minus its similarity to what is already picked, plus its novelty, is highest.
+  static rerank(
+    recommendations: Recommendation[],
+    limit: number,
+    ratingCounts: Map<string, number> = new Map(),
+    options: Partial<DiversityOptions> = {}
+  ): Recommendation[] {
+    const opts = { ...DEFAULT_DIVERSITY_OPTIONS, ...options };
+    if (opts.diversity <= 0 || recommendations.length <= 1) {
+      return recommendations.slice(0, limit);
+    }
+
+    const maxScore = Math.max(...recommendations.map(rec => rec.score)) || 1;
+    const maxCount = Math.max(0, ...Array.from(ratingCounts.values()));
+    const pool = [...recommendations];
+    const selected: Recommendation[] = [];
+
+    while (selected.length < limit && pool.length > 0) {
+      let bestIndex = 0;
+      let bestValue = -Infinity;
+
+      pool.forEach((rec, index) => {
+        const relevance = rec.score / maxScore;
+        const redundancy = selected.reduce(
+          (max, picked) => Math.max(max, this.similarity(rec.movie, picked.movie, opts)),
+          0
+        );
+        const novelty = this.novelty(ratingCounts.get(rec.movie.id) || 0, maxCount);
+        const value = (1 - opts.diversity) * relevance
+          + opts.diversity * ((1 - opts.noveltyWeight) * (1 - redundancy) + opts.noveltyWeight * novelty);
+
+        if (value > bestValue) {
+          bestValue = value;
+          bestIndex = index;
+        }
+      });
+
+      selected.push(pool.splice(bestIndex, 1)[0]);
+    }
+
+    return selected;
+  }
+
+  private static similarity(a: Movie, b: Movie, opts: DiversityOptions): number {
+    const genresA = new Set(a.genre.map(g => g.toLowerCase()));
+    const genresB = new Set(b.genre.map(g => g.toLowerCase()));
+    const sharedGenres = Array.from(genresA).filter(g => genresB.has(g)).length;
+    const allGenres = new Set([...genresA, ...genresB]).size;
+    const genreOverlap = allGenres > 0 ? sharedGenres / allGenres : 0;
+
+    const sameDirector = Boolean(a.director && b.director
+      && a.director.toLowerCase() === b.director.toLowerCase());
+    const sameDecade = Math.floor(a.year / 10) === Math.floor(b.year / 10);
+
+    return opts.genreWeight * genreOverlap
+      + opts.directorWeight * (sameDirector ? 1 : 0)
+      + opts.decadeWeight * (sameDecade ? 1 : 0);
+  }
+
+  // 1 for a movie nobody has rated, 0 for the most rated movie in the catalog
+  private static novelty(count: number, maxCount: number): number {
+    if (maxCount === 0) return 0;
+    return 1 - Math.log(1 + count) / Math.log(1 + maxCount);
+  }
+}
@@ -0,0 +1,123 @@
+import OpenAI from 'openai';
+import axios from 'axios';
+import { TextSimilarityService } from './textSimilarityService';
+
+export interface EmbeddingProvider {
+  // Identifies the vector space. Vectors are stored and compared per name,
+  // so switching provider or model never mixes incompatible vectors.
+  readonly name: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+  private client: OpenAI;
+
+  constructor(apiKey: string, private model = 'text-embedding-3-small') {
+    this.client = new OpenAI({ apiKey });
+    this.name = `openai:${model}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await this.client.embeddings.create({ model: this.model, input: texts });
+    return response.data
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+  }
+}
+
+// Deterministic bag-of-words embedder using the hashing trick.
+// Needs no network or model, which makes it suitable for offline development and evaluation.
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+
+  constructor(private dimensions = 256) {
+    this.name = `hashing:${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const tokens = TextSimilarityService.tokenize(text);
+    // Adjacent word pairs keep a little word order ("space station" vs "station space")
+    const features = [...tokens, ...tokens.slice(1).map((token, i) => `${tokens[i]}_${token}`)];
+
+    features.forEach(feature => {
+      const hash = this.fnv1a(feature);
+      const sign = (hash & 0x80000000) === 0 ? 1 : -1;
+      vector[hash % this.dimensions] += sign;
+    });
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm > 0 ? vector.map(v => v / norm) : vector;
+  }
+
+  private fnv1a(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
+
+// Any embedding server speaking the OpenAI `/v1/embeddings` format (vLLM, llama.cpp,
+// LocalAI, text-embeddings-inference, Ollama's /v1 API) or Ollama's `/api/embed` format.
+export class HttpEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+
+  constructor(private url: string, private model: string, private apiKey?: string) {
+    this.name = `http:${model}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await axios.post(
+      this.url,
+      { model: this.model, input: texts },
+      {
+        headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : undefined,
+        timeout: 30000,
+      }
+    );
+
+    if (Array.isArray(response.data?.data)) {
+      return response.data.data.map((item: { embedding: number[] }) => item.embedding);
+    }
+    if (Array.isArray(response.data?.embeddings)) {
+      return response.data.embeddings;
+    }
+    throw new Error('Unrecognized embedding response format');
+  }
+}
+
+// EMBEDDING_PROVIDER selects the implementation; without it OpenAI is used
+// when a key is configured and the local hashing embedder otherwise.
+export const createEmbeddingProvider = (): EmbeddingProvider => {
+  const provider = process.env.EMBEDDING_PROVIDER
+    || (process.env.OPENAI_API_KEY ? 'openai' : 'hashing');
+
+  switch (provider) {
+    case 'openai':
+      if (!process.env.OPENAI_API_KEY) {
+        throw new Error('EMBEDDING_PROVIDER=openai requires OPENAI_API_KEY');
+      }
+      return new OpenAIEmbeddingProvider(process.env.OPENAI_API_KEY, process.env.EMBEDDING_MODEL);
+    case 'http':
+      if (!process.env.EMBEDDING_URL) {
+        throw new Error('EMBEDDING_PROVIDER=http requires EMBEDDING_URL');
+      }
+      return new HttpEmbeddingProvider(
+        process.env.EMBEDDING_URL,
+        process.env.EMBEDDING_MODEL || 'default',
+        process.env.EMBEDDING_API_KEY
+      );
+    case 'hashing':
+      return new HashingEmbeddingProvider(Number(process.env.EMBEDDING_DIMENSIONS || 256));
+    default:
+      throw new Error(`Unknown embedding provider: ${provider}`);
+  }
+};
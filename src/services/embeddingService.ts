@@ -0,0 +1,154 @@
+import { Movie } from '../types';
+import { db, RecommendationDataSource } from './database';
+import { EmbeddingProvider, HashingEmbeddingProvider, createEmbeddingProvider } from './embeddingProviders';
+
+const BATCH_SIZE = 64;
+const INDEX_RELOAD_INTERVAL = 10 * 60 * 1000; // Pick up vectors embedded by other processes
+
+export interface EmbeddingMatch {
+  movieId: string;
+  score: number; // cosine similarity
+}
+
+export class EmbeddingService {
+  private index: Map<string, number[]> | null = null;
+  private loadedAt = 0;
+  private refreshQueue: Promise<void> = Promise.resolve();
+
+  // Without a provider the configured one is created on first use
+  constructor(
+    private provider?: EmbeddingProvider,
+    private data: Pick<RecommendationDataSource, 'getMovieEmbeddings'> = db
+  ) {}
+
+  get providerName(): string {
+    return this.getProvider().name;
+  }
+
+  static movieText(movie: Movie): string {
+    return [
+      movie.title,
+      movie.genre.join(', '),
+      movie.description,
+      movie.director ? `Directed by ${movie.director}` : '',
+      movie.actors && movie.actors.length > 0 ? `Starring ${movie.actors.join(', ')}` : '',
+    ].filter(Boolean).join('. ');
+  }
+
+  async embedMovies(movies: Movie[]): Promise<number> {
+    let embedded = 0;
+
+    for (let i = 0; i < movies.length; i += BATCH_SIZE) {
+      const batch = movies.slice(i, i + BATCH_SIZE);
+      const vectors = await this.getProvider().embed(batch.map(movie => EmbeddingService.movieText(movie)));
+
+      for (let j = 0; j < batch.length; j++) {
+        await db.upsertMovieEmbedding({
+          movieId: batch[j].id,
+          model: this.getProvider().name,
+          dimensions: vectors[j].length,
+          vector: vectors[j],
+        });
+        embedded++;
+      }
+    }
+
+    this.index = null;
+    return embedded;
+  }
+
+  // Called after a movie is created or updated. Runs in the background, one movie at a
+  // time: the movie is already saved, so a slow or failing provider must not hold up
+  // or fail the request, and bulk imports must not flood it.
+  refreshMovie(movie: Movie): void {
+    this.refreshQueue = this.refreshQueue
+      .then(async () => {
+        await this.embedMovies([movie]);
+      })
+      .catch(error => console.error(`Failed to refresh embedding for movie ${movie.id}:`, error));
+  }
+
+  // Unit-length vectors of every embedded movie for the current provider
+  async getIndex(): Promise<Map<string, number[]>> {
+    if (!this.index || Date.now() - this.loadedAt > INDEX_RELOAD_INTERVAL) {
+      const embeddings = await this.data.getMovieEmbeddings(this.getProvider().name);
+      this.index = new Map(embeddings.map(e => [e.movieId, this.normalize(e.vector)]));
+      this.loadedAt = Date.now();
+    }
+    return this.index;
+  }
+
+  // Semantic search: embed free text and return the closest movies
+  async search(query: string, limit = 10): Promise<EmbeddingMatch[]> {
+    const [queryVector] = await this.getProvider().embed([query]);
+    const index = await this.getIndex();
+    return this.nearest(index, this.normalize(queryVector), limit);
+  }
+
+  nearest(
+    index: Map<string, number[]>,
+    vector: number[],
+    limit: number,
+    candidateIds?: Set<string>
+  ): EmbeddingMatch[] {
+    const matches: EmbeddingMatch[] = [];
+    index.forEach((movieVector, movieId) => {
+      if (candidateIds && !candidateIds.has(movieId)) return;
+      matches.push({ movieId, score: this.dot(vector, movieVector) });
+    });
+
+    return matches
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  // Weighted centroid of the given movies' vectors
+  profile(index: Map<string, number[]>, weightedMovies: Array<{ movieId: string; weight: number }>): number[] | null {
+    let centroid: number[] | null = null;
+
+    for (const { movieId, weight } of weightedMovies) {
+      const vector = index.get(movieId);
+      if (!vector) continue;
+      if (!centroid) centroid = new Array<number>(vector.length).fill(0);
+      for (let i = 0; i < vector.length; i++) {
+        centroid[i] += vector[i] * weight;
+      }
+    }
+
+    return centroid ? this.normalize(centroid) : null;
+  }
+
+  similarity(a: number[], b: number[]): number {
+    return this.dot(a, b);
+  }
+
+  // A misconfigured provider falls back to local hashing rather than keeping the API from starting
+  private getProvider(): EmbeddingProvider {
+    if (!this.provider) {
+      try {
+        this.provider = createEmbeddingProvider();
+      } catch (error) {
+        console.error('Invalid embedding provider configuration, using hashing:', error);
+        this.provider = new HashingEmbeddingProvider(Number(process.env.EMBEDDING_DIMENSIONS || 256));
+      }
+    }
+    return this.provider;
+  }
+
+  private dot(a: number[], b: number[]): number {
+    const length = Math.min(a.length, b.length);
+    let sum = 0;
+    for (let i = 0; i < length; i++) {
+      sum += a[i] * b[i];
+    }
+    return sum;
+  }
+
+  private normalize(vector: number[]): number[] {
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm > 0 ? vector.map(v => v / norm) : vector;
+  }
+}
+
+// Export singleton instance
+export const embeddingService = new EmbeddingService();
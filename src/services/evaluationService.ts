@@ -0,0 +1,151 @@
+import { Movie, Rating, Recommendation } from '../types';
+
+export interface EvaluationDataset {
+  movies: Movie[];
+  ratings: Rating[];
+}
+
+export interface TimeSplit {
+  train: Rating[];
+  test: Rating[];
+  cutoff: Date;
+}
+
+export interface AlgorithmReport {
+  algorithm: string;
+  users: number;
+  precisionAtK: number;
+  recallAtK: number;
+  ndcg: number;
+  map: number;
+  coverage: number;
+  novelty: number;
+  durationMs: number;
+}
+
+export type RecommendFn = (userId: string, userRatings: Rating[], k: number) => Promise<Recommendation[]>;
+
+export class EvaluationService {
+  // Everything rated before the cutoff is training data, everything after is held out
+  static splitByTime(ratings: Rating[], trainFraction = 0.8): TimeSplit {
+    const sorted = [...ratings].sort(
+      (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+    );
+    const cutoffIndex = Math.min(sorted.length - 1, Math.floor(sorted.length * trainFraction));
+    const cutoff = sorted.length > 0 ? new Date(sorted[cutoffIndex].createdAt) : new Date();
+
+    return {
+      train: sorted.filter(r => new Date(r.createdAt) < cutoff),
+      test: sorted.filter(r => new Date(r.createdAt) >= cutoff),
+      cutoff,
+    };
+  }
+
+  // A held-out movie counts as relevant when the user liked it
+  static relevantItemsByUser(test: Rating[]): Map<string, Set<string>> {
+    const relevant = new Map<string, Set<string>>();
+    test
+      .filter(r => r.liked && r.rating >= 4)
+      .forEach(r => {
+        const items = relevant.get(r.userId) || new Set<string>();
+        items.add(r.movieId);
+        relevant.set(r.userId, items);
+      });
+    return relevant;
+  }
+
+  static async evaluate(
+    algorithm: string,
+    recommend: RecommendFn,
+    split: TimeSplit,
+    catalogSize: number,
+    k = 10
+  ): Promise<AlgorithmReport> {
+    const startTime = Date.now();
+    const relevantByUser = this.relevantItemsByUser(split.test);
+    const popularity = this.itemPopularity(split.train);
+    const trainUsers = new Set(split.train.map(r => r.userId)).size;
+    const recommendedItems = new Set<string>();
+
+    let precision = 0;
+    let recall = 0;
+    let ndcg = 0;
+    let map = 0;
+    let noveltySum = 0;
+    let noveltyCount = 0;
+
+    for (const [userId, relevant] of relevantByUser) {
+      const userRatings = split.train.filter(r => r.userId === userId);
+      const recommended = (await recommend(userId, userRatings, k))
+        .slice(0, k)
+        .map(rec => rec.movie.id);
+
+      recommended.forEach(movieId => {
+        recommendedItems.add(movieId);
+        noveltySum += -Math.log2(((popularity.get(movieId) || 0) + 1) / (trainUsers + 1));
+        noveltyCount++;
+      });
+
+      precision += this.precisionAtK(recommended, relevant, k);
+      recall += this.recallAtK(recommended, relevant, k);
+      ndcg += this.ndcgAtK(recommended, relevant, k);
+      map += this.averagePrecisionAtK(recommended, relevant, k);
+    }
+
+    const users = relevantByUser.size;
+    return {
+      algorithm,
+      users,
+      precisionAtK: users > 0 ? precision / users : 0,
+      recallAtK: users > 0 ? recall / users : 0,
+      ndcg: users > 0 ? ndcg / users : 0,
+      map: users > 0 ? map / users : 0,
+      coverage: catalogSize > 0 ? recommendedItems.size / catalogSize : 0,
+      novelty: noveltyCount > 0 ? noveltySum / noveltyCount : 0,
+      durationMs: Date.now() - startTime,
+    };
+  }
+
+  static precisionAtK(recommended: string[], relevant: Set<string>, k: number): number {
+    const hits = recommended.slice(0, k).filter(id => relevant.has(id)).length;
+    return k > 0 ? hits / k : 0;
+  }
+
+  static recallAtK(recommended: string[], relevant: Set<string>, k: number): number {
+    const hits = recommended.slice(0, k).filter(id => relevant.has(id)).length;
+    return relevant.size > 0 ? hits / relevant.size : 0;
+  }
+
+  static ndcgAtK(recommended: string[], relevant: Set<string>, k: number): number {
+    const dcg = recommended
+      .slice(0, k)
+      .reduce((sum, id, index) => sum + (relevant.has(id) ? 1 / Math.log2(index + 2) : 0), 0);
+
+    let idcg = 0;
+    for (let index = 0; index < Math.min(relevant.size, k); index++) {
+      idcg += 1 / Math.log2(index + 2);
+    }
+    return idcg > 0 ? dcg / idcg : 0;
+  }
+
+  static averagePrecisionAtK(recommended: string[], relevant: Set<string>, k: number): number {
+    let hits = 0;
+    let sum = 0;
+    recommended.slice(0, k).forEach((id, index) => {
+      if (relevant.has(id)) {
+        hits++;
+        sum += hits / (index + 1);
+      }
+    });
+
+    const denominator = Math.min(relevant.size, k);
+    return denominator > 0 ? sum / denominator : 0;
+  }
+
+  // Number of training users who rated each movie
+  private static itemPopularity(train: Rating[]): Map<string, number> {
+    const popularity = new Map<string, number>();
+    train.forEach(r => popularity.set(r.movieId, (popularity.get(r.movieId) || 0) + 1));
+    return popularity;
+  }
+}
@@ -0,0 +1,85 @@
+import crypto from 'crypto';
+import { Experiment, ExperimentAssignment, ExperimentVariantSummary } from '../types';
+import { db } from './database';
+
+// Default experiment; override with a JSON array in RECOMMENDATION_EXPERIMENTS
+const DEFAULT_EXPERIMENTS: Experiment[] = [
+  {
+    name: 'recommendation-algorithm',
+    active: true,
+    variants: [
+      { name: 'control', algorithm: 'hybrid', allocation: 50 },
+      { name: 'content', algorithm: 'content', allocation: 50 },
+    ],
+  },
+];
+
+const loadExperiments = (): Experiment[] => {
+  if (!process.env.RECOMMENDATION_EXPERIMENTS) {
+    return DEFAULT_EXPERIMENTS;
+  }
+
+  try {
+    return JSON.parse(process.env.RECOMMENDATION_EXPERIMENTS);
+  } catch (error) {
+    console.error('Invalid RECOMMENDATION_EXPERIMENTS, using defaults:', error);
+    return DEFAULT_EXPERIMENTS;
+  }
+};
+
+class ExperimentService {
+  private experiments: Experiment[] = loadExperiments();
+
+  getExperiments(): Experiment[] {
+    return this.experiments;
+  }
+
+  getExperiment(name: string): Experiment | undefined {
+    return this.experiments.find(experiment => experiment.name === name);
+  }
+
+  // Deterministic: the same user always lands in the same variant of an experiment
+  assign(userId: string): ExperimentAssignment | null {
+    const experiment = this.experiments.find(e => e.active && e.variants.length > 0);
+    if (!experiment) return null;
+
+    const totalAllocation = experiment.variants.reduce((sum, v) => sum + v.allocation, 0);
+    if (totalAllocation <= 0) return null;
+
+    const bucket = this.bucket(`${experiment.name}:${userId}`) * totalAllocation;
+    let cumulative = 0;
+    for (const variant of experiment.variants) {
+      cumulative += variant.allocation;
+      if (bucket < cumulative) {
+        return { experiment: experiment.name, variant };
+      }
+    }
+    return { experiment: experiment.name, variant: experiment.variants[experiment.variants.length - 1] };
+  }
+
+  async recordExposure(userId: string, assignment: ExperimentAssignment): Promise<void> {
+    try {
+      await db.recordExperimentExposure({
+        userId,
+        experiment: assignment.experiment,
+        variant: assignment.variant.name,
+        algorithm: assignment.variant.algorithm,
+      });
+    } catch (error) {
+      // Never fail a recommendation request because exposure logging failed
+      console.error('Failed to record experiment exposure:', error);
+    }
+  }
+
+  async getSummary(name: string): Promise<ExperimentVariantSummary[]> {
+    return db.getExperimentSummary(name);
+  }
+
+  // Map a key to a stable number in [0, 1)
+  private bucket(key: string): number {
+    const hash = crypto.createHash('md5').update(key).digest();
+    return hash.readUInt32BE(0) / 0x100000000;
+  }
+}
+
+export const experimentService = new ExperimentService();
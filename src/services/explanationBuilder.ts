@@ -0,0 +1,85 @@
+import {
+  Movie,
+  RecommendationExplanation,
+  RecommendationSignal,
+  RecommendationSignalSource,
+  ExplanationSeedMovie,
+} from '../types';
+
+type ExplanationDetails = Partial<Omit<RecommendationExplanation, 'algorithm' | 'signals'>>;
+
+export class ExplanationBuilder {
+  // Explanation for a score that comes from a single signal
+  static create(
+    algorithm: string,
+    source: RecommendationSignalSource,
+    score: number,
+    details: ExplanationDetails = {}
+  ): RecommendationExplanation {
+    return {
+      algorithm,
+      signals: [{ source, weight: 1, score }],
+      seedMovies: details.seedMovies || [],
+      similarUsers: details.similarUsers || 0,
+      matchedGenres: details.matchedGenres || [],
+      matchedDirector: details.matchedDirector,
+    };
+  }
+
+  static seed(movie: Movie, rating?: number): ExplanationSeedMovie {
+    return rating !== undefined
+      ? { id: movie.id, title: movie.title, rating }
+      : { id: movie.id, title: movie.title };
+  }
+
+  // Genres of `movie` that also appear in any of the seed movies, in the movie's own spelling
+  static matchedGenres(movie: Movie, seeds: Movie[]): string[] {
+    const seedGenres = new Set(seeds.flatMap(seed => seed.genre.map(g => g.toLowerCase())));
+    return movie.genre.filter(g => seedGenres.has(g.toLowerCase()));
+  }
+
+  static matchedDirector(movie: Movie, seeds: Movie[]): string | undefined {
+    if (!movie.director) return undefined;
+    const director = movie.director.toLowerCase();
+    return seeds.some(seed => seed.director?.toLowerCase() === director) ? movie.director : undefined;
+  }
+
+  static addSignal(
+    explanation: RecommendationExplanation,
+    signal: RecommendationSignal
+  ): RecommendationExplanation {
+    return { ...explanation, signals: [...explanation.signals, signal] };
+  }
+
+  static reweight(explanation: RecommendationExplanation, factor: number): RecommendationExplanation {
+    return {
+      ...explanation,
+      signals: explanation.signals.map(signal => ({ ...signal, weight: signal.weight * factor })),
+    };
+  }
+
+  // Combine the explanations of two strategies that recommended the same movie
+  static merge(
+    algorithm: string,
+    base: RecommendationExplanation,
+    other: RecommendationExplanation
+  ): RecommendationExplanation {
+    const seedIds = new Set(base.seedMovies.map(seed => seed.id));
+    const genres = new Set(base.matchedGenres);
+    const dislikedIds = new Set((base.dislikedMovies || []).map(movie => movie.id));
+    const dislikedMovies = [
+      ...(base.dislikedMovies || []),
+      ...(other.dislikedMovies || []).filter(movie => !dislikedIds.has(movie.id)),
+    ];
+
+    return {
+      algorithm,
+      signals: [...base.signals, ...other.signals],
+      seedMovies: [...base.seedMovies, ...other.seedMovies.filter(seed => !seedIds.has(seed.id))],
+      similarUsers: Math.max(base.similarUsers, other.similarUsers),
+      matchedGenres: [...base.matchedGenres, ...other.matchedGenres.filter(g => !genres.has(g))],
+      matchedDirector: base.matchedDirector || other.matchedDirector,
+      ...(dislikedMovies.length > 0 ? { dislikedMovies } : {}),
+    };
+  }
+}
@@ -0,0 +1,133 @@
+import {
+  GroupMemberPrediction,
+  GroupRecommendation,
+  GroupStrategy,
+  Movie,
+  RecommendationFilters,
+  User,
+} from '../types';
+import { db } from './database';
+import { CandidateFilter } from './candidateFilter';
+import { ExplanationBuilder } from './explanationBuilder';
+import { RatingPredictor } from './ratingPredictor';
+
+const WATCHLIST_BOOST = 0.5; // Stars added for a movie the member already wants to see
+
+interface ScoredGroupMovie {
+  movie: Movie;
+  members: GroupMemberPrediction[];
+  groupRating: number;
+  averageRating: number;
+}
+
+export class GroupRecommender {
+  // `members` must have consented to share their predictions with each other, i.e. be the
+  // requester's accepted contacts (see db.getContactsByIdentifiers)
+  static async generateRecommendations(
+    members: User[],
+    allMovies: Movie[],
+    strategy: GroupStrategy = 'average',
+    limit = 10,
+    filters: RecommendationFilters = {}
+  ): Promise<GroupRecommendation[]> {
+    const moviesById = new Map(allMovies.map(movie => [movie.id, movie]));
+
+    const memberData = await Promise.all(members.map(async user => {
+      const ratings = await db.getUserRatings(user.id);
+      const watchlist = await db.getUserWatchlist(user.id);
+      const feedback = await db.getUserFeedback(user.id);
+      const watched = await db.getWatchedMovieIds(user.id);
+      return {
+        user,
+        ratings,
+        feedback,
+        watched,
+        watchlist: new Set(watchlist.map(item => item.movieId)),
+        profile: await RatingPredictor.profile(user.id, ratings, moviesById),
+      };
+    }));
+
+    // Skip anything a member has already rated, watched or hidden
+    const candidates = CandidateFilter.apply(
+      allMovies,
+      memberData.flatMap(m => m.ratings),
+      { ...filters, excludeWatched: true },
+      memberData.flatMap(m => m.feedback),
+      memberData.flatMap(m => m.watched)
+    );
+
+    const scored: ScoredGroupMovie[] = candidates.map(movie => {
+      const predictions: GroupMemberPrediction[] = memberData.map(({ user, watchlist, profile }) => {
+        const prediction = RatingPredictor.predict(profile, movie);
+        const onWatchlist = watchlist.has(movie.id);
+        return {
+          userId: user.id,
+          username: user.username,
+          predictedRating: Math.min(5, prediction.rating + (onWatchlist ? WATCHLIST_BOOST : 0)),
+          confidence: prediction.confidence,
+          onWatchlist,
+        };
+      });
+      const ratings = predictions.map(p => p.predictedRating);
+
+      return {
+        movie,
+        members: predictions,
+        groupRating: this.aggregate(strategy, ratings),
+        averageRating: ratings.reduce((sum, r) => sum + r, 0) / ratings.length,
+      };
+    });
+
+    return scored
+      .sort((a, b) => b.groupRating - a.groupRating || b.averageRating - a.averageRating)
+      .slice(0, limit)
+      .map(item => {
+        const score = (item.groupRating - 1) / 4;
+        return {
+          movie: item.movie,
+          score,
+          reason: this.buildReason(strategy, item),
+          explanation: ExplanationBuilder.create(`group_${strategy}`, 'prediction', score),
+          members: item.members,
+        };
+      });
+  }
+
+  static aggregate(strategy: GroupStrategy, ratings: number[]): number {
+    switch (strategy) {
+      case 'least_misery':
+        return Math.min(...ratings);
+      case 'most_pleasure':
+        return Math.max(...ratings);
+      case 'average':
+      default:
+        return ratings.reduce((sum, r) => sum + r, 0) / ratings.length;
+    }
+  }
+
+  private static buildReason(strategy: GroupStrategy, item: ScoredGroupMovie): string {
+    const byRating = [...item.members].sort((a, b) => a.predictedRating - b.predictedRating);
+    const least = byRating[0];
+    const most = byRating[byRating.length - 1];
+
+    let reason: string;
+    switch (strategy) {
+      case 'least_misery':
+        reason = `Safe pick for everyone: the lowest prediction is ${least.predictedRating.toFixed(1)}/5 (${least.username})`;
+        break;
+      case 'most_pleasure':
+        reason = `${most.username} should love it (${most.predictedRating.toFixed(1)}/5)`;
+        break;
+      case 'average':
+      default:
+        reason = `Predicted ${item.averageRating.toFixed(1)}/5 on average across ${item.members.length} people`;
+        break;
+    }
+
+    const watchlisted = item.members.filter(m => m.onWatchlist).map(m => m.username);
+    if (watchlisted.length > 0) {
+      reason += `; on the watchlist of ${watchlisted.join(', ')}`;
+    }
+    return reason;
+  }
+}
@@ -0,0 +1,218 @@
+import {
+  HybridConfig,
+  HybridNormalization,
+  HybridWeights,
+  Movie,
+  Recommendation,
+  RecommendationExplanation,
+  RecommendationFilters,
+  Recommender,
+} from '../types';
+import { CandidateFilter } from './candidateFilter';
+import { ExplanationBuilder } from './explanationBuilder';
+import { PopularityService } from './popularityService';
+import { PreferenceScorer } from './preferenceScorer';
+import { recommenderRegistry } from './recommenderRegistry';
+import { RecommendationSource, liveSource } from './recommendationSource';
+
+export const HYBRID_NORMALIZATIONS: HybridNormalization[] = ['none', 'max', 'minmax', 'rank'];
+
+// Default blend; override with a JSON object in HYBRID_WEIGHTS,
+// e.g. {"collaborative": 0.5, "item": 0.3, "embedding": 0.2}
+const loadWeights = (): HybridWeights => {
+  const defaults: HybridWeights = {
+    collaborative: 0.6,
+    content: 0.4,
+    // Matrix-factorization component of the blend (0 disables it)
+    mf: Number(process.env.HYBRID_MF_WEIGHT || 0),
+  };
+  if (!process.env.HYBRID_WEIGHTS) {
+    return defaults;
+  }
+
+  try {
+    return JSON.parse(process.env.HYBRID_WEIGHTS);
+  } catch (error) {
+    console.error('Invalid HYBRID_WEIGHTS, using defaults:', error);
+    return defaults;
+  }
+};
+
+const loadNormalization = (): HybridNormalization => {
+  const normalization = process.env.HYBRID_NORMALIZATION as HybridNormalization | undefined;
+  if (!normalization) {
+    return 'max';
+  }
+  if (!HYBRID_NORMALIZATIONS.includes(normalization)) {
+    console.error(`Invalid HYBRID_NORMALIZATION "${normalization}", using max`);
+    return 'max';
+  }
+  return normalization;
+};
+
+export const DEFAULT_HYBRID_CONFIG: HybridConfig = {
+  weights: loadWeights(),
+  normalization: loadNormalization(),
+};
+
+interface BlendedMovie {
+  movie: Movie;
+  score: number;
+  explanation: RecommendationExplanation;
+  parts: { label: string; reason: string; contribution: number }[];
+}
+
+// Weighted blend of registered strategies. Each strategy's scores are normalized first,
+// so a movie's score is the weighted mean of its normalized scores (0 where a strategy
+// did not recommend it): agreement between strategies ranks a movie higher.
+export class HybridRecommender implements Recommender {
+  readonly name = 'hybrid';
+  readonly label = 'hybrid';
+  readonly usesPreferences = true;
+
+  constructor(private config: HybridConfig = DEFAULT_HYBRID_CONFIG) {}
+
+  // Returns an error message, or null when every weighted strategy can be blended
+  static validateWeights(weights: HybridWeights): string | null {
+    const names = Object.keys(weights);
+    if (names.includes('hybrid')) {
+      return 'hybrid cannot be blended into itself';
+    }
+    const unknown = names.filter(name => !recommenderRegistry.has(name));
+    if (unknown.length > 0) {
+      return `Unknown algorithms in weights: ${unknown.join(', ')}`;
+    }
+    if (names.some(name => !Number.isFinite(weights[name]) || weights[name] < 0)) {
+      return 'Weights must be non-negative numbers';
+    }
+    if (!names.some(name => weights[name] > 0)) {
+      return 'At least one weight must be positive';
+    }
+    return null;
+  }
+
+  // Scores rescaled to 0-1 (except 'none'), in the order given
+  static normalize(scores: number[], normalization: HybridNormalization): number[] {
+    if (scores.length === 0) return [];
+
+    switch (normalization) {
+      case 'none':
+        return scores;
+      case 'rank': {
+        // 1 for the best movie, falling linearly down the list
+        const order = scores.map((score, index) => ({ score, index })).sort((a, b) => b.score - a.score);
+        const ranks = new Array<number>(scores.length);
+        order.forEach((item, rank) => { ranks[item.index] = 1 - rank / scores.length; });
+        return ranks;
+      }
+      case 'minmax': {
+        const min = Math.min(...scores);
+        const max = Math.max(...scores);
+        return scores.map(score => (max > min ? (score - min) / (max - min) : 1));
+      }
+      case 'max':
+      default: {
+        const max = Math.max(...scores);
+        return scores.map(score => (max > 0 ? Math.max(0, score) / max : 0));
+      }
+    }
+  }
+
+  async recommend(
+    userId: string,
+    allMovies: Movie[],
+    limit = 10,
+    filters: RecommendationFilters = {},
+    source: RecommendationSource = liveSource()
+  ): Promise<Recommendation[]> {
+    try {
+      const components = await this.components(source);
+      const totalWeight = components.reduce((sum, c) => sum + c.weight, 0);
+      if (totalWeight <= 0) {
+        const candidates = await CandidateFilter.forFallback(userId, allMovies, filters, source);
+        return PopularityService.recommend(candidates, limit, source);
+      }
+
+      const preferences = components.some(c => !c.recommender.usesPreferences)
+        ? (await source.data.getUserById(userId))?.preferences
+        : undefined;
+
+      // Ask every strategy for a full list so the blend can still fill `limit`
+      // when they overlap or when filters leave one of them short
+      const lists = await Promise.all(components.map(async ({ recommender }) => {
+        const recommendations = await recommender.recommend(userId, allMovies, limit, filters, source);
+        return recommender.usesPreferences
+          ? recommendations
+          : PreferenceScorer.apply(recommendations, preferences);
+      }));
+
+      const blended = new Map<string, BlendedMovie>();
+      components.forEach(({ recommender, weight }, i) => {
+        const recommendations = lists[i];
+        const normalized = HybridRecommender.normalize(recommendations.map(rec => rec.score), this.config.normalization);
+
+        recommendations.forEach((rec, j) => {
+          const contribution = (weight / totalWeight) * normalized[j];
+          const explanation = this.scaleExplanation(rec, contribution);
+          const part = { label: recommender.label, reason: rec.reason, contribution };
+
+          const existing = blended.get(rec.movie.id);
+          if (existing) {
+            existing.score += contribution;
+            existing.explanation = ExplanationBuilder.merge('hybrid', existing.explanation, explanation);
+            existing.parts.push(part);
+          } else {
+            blended.set(rec.movie.id, {
+              movie: rec.movie,
+              score: contribution,
+              explanation: { ...explanation, algorithm: 'hybrid' },
+              parts: [part],
+            });
+          }
+        });
+      });
+
+      return Array.from(blended.values())
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit)
+        .map(item => {
+          // The strongest strategy explains the movie; the others are named after it
+          const parts = [...item.parts].sort((a, b) => b.contribution - a.contribution);
+          return {
+            movie: item.movie,
+            score: item.score,
+            reason: `${parts[0].reason} (${parts.map(part => part.label).join(' + ')})`,
+            explanation: item.explanation,
+          };
+        });
+    } catch (error) {
+      console.error('Hybrid recommendation error:', error);
+      const candidates = await CandidateFilter.forFallback(userId, allMovies, filters, source);
+      return PopularityService.recommend(candidates, limit, source);
+    }
+  }
+
+  // Weighted strategies that can currently produce recommendations
+  private async components(source: RecommendationSource): Promise<{ recommender: Recommender; weight: number }[]> {
+    const components: { recommender: Recommender; weight: number }[] = [];
+    for (const [name, weight] of Object.entries(this.config.weights)) {
+      const recommender = recommenderRegistry.get(name);
+      if (!recommender || name === this.name || !(weight > 0)) continue;
+      if (recommender.isAvailable && !await recommender.isAvailable(source)) continue;
+      components.push({ recommender, weight });
+    }
+    return components;
+  }
+
+  // Scale the strategy's signals so they add up to the movie's contribution to the blend
+  private scaleExplanation(rec: Recommendation, contribution: number): RecommendationExplanation {
+    if (rec.score !== 0) {
+      return ExplanationBuilder.reweight(rec.explanation, contribution / rec.score);
+    }
+    // Rank and min-max normalization can lift a zero score above zero
+    return ExplanationBuilder.addSignal(
+      ExplanationBuilder.reweight(rec.explanation, 0),
+      { source: rec.explanation.signals[0]?.source || 'popularity', weight: 1, score: contribution }
+    );
+  }
+}
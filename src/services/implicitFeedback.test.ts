@@ -0,0 +1,61 @@
+import { InteractionEvent, InteractionType, Rating } from '../types';
+import { ImplicitFeedback } from './implicitFeedback';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date('2024-06-01T00:00:00Z');
+
+let nextId = 0;
+const event = (movieId: string, type: InteractionType, daysAgo = 0): InteractionEvent => ({
+  id: `e${nextId++}`,
+  userId: 'u1',
+  movieId,
+  type,
+  createdAt: new Date(now.getTime() - daysAgo * DAY_MS),
+});
+
+// With the default IMPLICIT_WEIGHTS and a RATING_HALF_LIFE_DAYS of 365
+describe('ImplicitFeedback.strengths', () => {
+  it('adds up the weights of different signal types', () => {
+    const strengths = ImplicitFeedback.strengths([event('a', 'watchlist_add'), event('a', 'view')], [], now);
+
+    expect(strengths.get('a')).toBeCloseTo(0.7);
+  });
+
+  it('counts each signal type once per movie', () => {
+    const strengths = ImplicitFeedback.strengths([event('a', 'view'), event('a', 'view'), event('a', 'view')], [], now);
+
+    expect(strengths.get('a')).toBeCloseTo(0.1);
+  });
+
+  it('decays a signal by the age of its latest event', () => {
+    const strengths = ImplicitFeedback.strengths([
+      event('a', 'watchlist_add', 365),
+      event('b', 'view', 730),
+      event('b', 'view', 0),
+    ], [], now);
+
+    expect(strengths.get('a')).toBeCloseTo(0.3);
+    expect(strengths.get('b')).toBeCloseTo(0.1);
+  });
+
+  it('lets negative signals count against a movie', () => {
+    const strengths = ImplicitFeedback.strengths([event('a', 'watchlist_remove')], [], now);
+
+    expect(strengths.get('a')).toBeCloseTo(-0.3);
+  });
+
+  it('leaves out movies the user has rated', () => {
+    const rating: Rating = {
+      id: 'r1',
+      userId: 'u1',
+      movieId: 'a',
+      rating: 2,
+      liked: false,
+      createdAt: now,
+    };
+    const strengths = ImplicitFeedback.strengths([event('a', 'watchlist_add'), event('b', 'view')], [rating], now);
+
+    expect(strengths.has('a')).toBe(false);
+    expect(strengths.has('b')).toBe(true);
+  });
+});
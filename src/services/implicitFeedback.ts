@@ -0,0 +1,95 @@
+import { InteractionEvent, InteractionType, Rating } from '../types';
+import { TimeDecay } from './timeDecay';
+import { RecommendationSource, liveSource } from './recommendationSource';
+
+export const INTERACTION_TYPES: InteractionType[] = ['watchlist_add', 'watchlist_remove', 'view', 'search_click'];
+
+// What one signal is worth as a share of a 5-star like; negative values count against
+// the movie. Override with a JSON object in IMPLICIT_WEIGHTS, e.g. {"view": 0.2, "watchlist_remove": 0}
+const loadWeights = (): Record<InteractionType, number> => {
+  const defaults: Record<InteractionType, number> = {
+    watchlist_add: 0.6,
+    watchlist_remove: -0.3,
+    view: 0.1,
+    search_click: 0.2,
+  };
+  if (!process.env.IMPLICIT_WEIGHTS) {
+    return defaults;
+  }
+
+  try {
+    return { ...defaults, ...JSON.parse(process.env.IMPLICIT_WEIGHTS) };
+  } catch (error) {
+    console.error('Invalid IMPLICIT_WEIGHTS, using defaults:', error);
+    return defaults;
+  }
+};
+
+const IMPLICIT_WEIGHTS = loadWeights();
+// Older events are not read at all
+const IMPLICIT_WINDOW_MS = Number(process.env.IMPLICIT_WINDOW_DAYS || 365) * 24 * 60 * 60 * 1000;
+
+export class ImplicitFeedback {
+  static getWeights(): Record<InteractionType, number> {
+    return IMPLICIT_WEIGHTS;
+  }
+
+  // Net implicit signal per movie, from -1 to 1. Each signal type counts once per movie,
+  // by its latest event and decayed by age like ratings are, so repeated views do not
+  // add up to a like. Rated movies are left out: the rating says more.
+  static strengths(events: InteractionEvent[], ratings: Rating[] = [], now = new Date()): Map<string, number> {
+    const rated = new Set(ratings.map(rating => rating.movieId));
+    const latest = new Map<string, InteractionEvent>();
+    events.forEach(event => {
+      if (rated.has(event.movieId)) return;
+      const key = `${event.movieId}:${event.type}`;
+      const current = latest.get(key);
+      if (!current || new Date(event.createdAt) > new Date(current.createdAt)) latest.set(key, event);
+    });
+
+    const strengths = new Map<string, number>();
+    latest.forEach(event => {
+      const signal = (IMPLICIT_WEIGHTS[event.type] ?? 0) * TimeDecay.weight(event, now);
+      strengths.set(event.movieId, (strengths.get(event.movieId) || 0) + signal);
+    });
+    strengths.forEach((strength, movieId) => {
+      if (strength === 0) {
+        strengths.delete(movieId);
+      } else {
+        strengths.set(movieId, Math.max(-1, Math.min(1, strength)));
+      }
+    });
+    return strengths;
+  }
+
+  static async forUser(
+    userId: string,
+    ratings: Rating[],
+    source: RecommendationSource = liveSource()
+  ): Promise<Map<string, number>> {
+    const events = await source.data.getUserInteractions(userId, this.since(source.now));
+    return this.strengths(events, ratings, source.now);
+  }
+
+  // Strengths of several users at once, e.g. a user's neighbours; `ratings` may hold
+  // the ratings of all of them
+  static async forUsers(
+    userIds: string[],
+    ratings: Rating[],
+    source: RecommendationSource = liveSource()
+  ): Promise<Map<string, Map<string, number>>> {
+    const events = await source.data.getInteractionsForUsers(userIds, this.since(source.now));
+    return new Map(userIds.map(userId => [
+      userId,
+      this.strengths(
+        events.filter(event => event.userId === userId),
+        ratings.filter(rating => rating.userId === userId),
+        source.now
+      ),
+    ]));
+  }
+
+  private static since(now: Date): Date {
+    return new Date(now.getTime() - IMPLICIT_WINDOW_MS);
+  }
+}
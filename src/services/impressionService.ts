@@ -0,0 +1,97 @@
+import crypto from 'crypto';
+import { ImpressionEventType, RecommendationImpression, RecommendationQuality } from '../types';
+import { db } from './database';
+import {
+  recommendationImpressions,
+  recommendationClicks,
+  recommendationConversions,
+  recommendationCtr,
+  recommendationConversionRate,
+  recommendationMrr,
+} from './metrics';
+
+// Period the quality gauges cover
+const QUALITY_WINDOW_DAYS = Number(process.env.RECOMMENDATION_QUALITY_WINDOW_DAYS || 7);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Logs every recommendation list served and the clicks and conversions reported for its
+// movies, to measure how well each algorithm's lists are used
+export class ImpressionService {
+  private static timer: NodeJS.Timeout | null = null;
+
+  // Returns the ID clients report clicks with, or undefined when logging failed
+  static async log(algorithm: string, movieIds: string[], userId?: string): Promise<string | undefined> {
+    if (movieIds.length === 0) return undefined;
+
+    const listId = crypto.randomUUID();
+    try {
+      await db.createImpressions(movieIds.map((movieId, position) => ({ listId, algorithm, position, movieId, userId })));
+      recommendationImpressions.inc({ algorithm }, movieIds.length);
+      return listId;
+    } catch (error) {
+      // Never fail a recommendation request because impression logging failed
+      console.error('Failed to log recommendation impressions:', error);
+      return undefined;
+    }
+  }
+
+  // Record a click or conversion on a listed movie; null when the movie was not in the
+  // list, or the list was served to another user. A conversion counts as a click too.
+  // Repeated reports are ignored.
+  static async record(
+    listId: string,
+    movieId: string,
+    type: ImpressionEventType,
+    userId?: string
+  ): Promise<RecommendationImpression | null> {
+    const impression = await db.getImpression(listId, movieId);
+    if (!impression || (impression.userId && impression.userId !== userId)) return null;
+
+    const now = new Date();
+    const { algorithm } = impression;
+    if (type === 'click') {
+      if (impression.clickedAt) return impression;
+      recommendationClicks.inc({ algorithm });
+      return db.updateImpression(impression.id, { clickedAt: now });
+    }
+
+    if (impression.convertedAt) return impression;
+    if (!impression.clickedAt) recommendationClicks.inc({ algorithm });
+    recommendationConversions.inc({ algorithm, type });
+    return db.updateImpression(impression.id, {
+      clickedAt: impression.clickedAt || now,
+      convertedAt: now,
+      conversion: type,
+    });
+  }
+
+  static async getReport(days = QUALITY_WINDOW_DAYS): Promise<RecommendationQuality[]> {
+    const report = await db.getRecommendationQuality(new Date(Date.now() - days * DAY_MS));
+    return report.sort((a, b) => b.impressions - a.impressions);
+  }
+
+  // Set the quality gauges from the last QUALITY_WINDOW_DAYS of impressions
+  static async refreshMetrics(): Promise<void> {
+    const report = await this.getReport();
+    recommendationCtr.reset();
+    recommendationConversionRate.reset();
+    recommendationMrr.reset();
+    report.forEach(({ algorithm, ctr, conversionRate, mrr }) => {
+      recommendationCtr.set({ algorithm }, ctr);
+      recommendationConversionRate.set({ algorithm }, conversionRate);
+      recommendationMrr.set({ algorithm }, mrr);
+    });
+  }
+
+  // Refresh now and then every `intervalMs`; failures are logged and retried on the next tick
+  static scheduleMetrics(intervalMs: number): void {
+    const run = (): void => {
+      this.refreshMetrics().catch(error => console.error('Failed to refresh recommendation quality metrics:', error));
+    };
+
+    run();
+    if (this.timer) clearInterval(this.timer);
+    this.timer = setInterval(run, intervalMs);
+    this.timer.unref();
+  }
+}
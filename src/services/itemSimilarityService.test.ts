@@ -0,0 +1,73 @@
+import { Rating } from '../types';
+import { ItemSimilarityService } from './itemSimilarityService';
+
+let nextId = 0;
+const rating = (userId: string, movieId: string, stars: number): Rating => ({
+  id: `r${nextId++}`,
+  userId,
+  movieId,
+  rating: stars,
+  liked: stars >= 4,
+  createdAt: new Date('2024-01-01'),
+});
+
+const score = (
+  similarities: ReturnType<typeof ItemSimilarityService.computeSimilarities>,
+  movieId: string,
+  similarMovieId: string
+): number | undefined => similarities
+  .find(s => s.movieId === movieId && s.similarMovieId === similarMovieId)?.score;
+
+describe('ItemSimilarityService.computeSimilarities', () => {
+  // a and b are liked and disliked together; c goes the other way
+  const ratings = [
+    rating('u1', 'a', 5), rating('u1', 'b', 5), rating('u1', 'c', 1),
+    rating('u2', 'a', 1), rating('u2', 'b', 2), rating('u2', 'c', 5),
+    rating('u3', 'a', 4), rating('u3', 'b', 5), rating('u3', 'c', 2),
+  ];
+
+  it('scores movies rated alike by the same users as similar, in both directions', () => {
+    const similarities = ItemSimilarityService.computeSimilarities(ratings);
+
+    expect(score(similarities, 'a', 'b')).toBeGreaterThan(0.5);
+    expect(score(similarities, 'a', 'b')).toBeCloseTo(score(similarities, 'b', 'a') as number);
+    expect(similarities.find(s => s.movieId === 'a' && s.similarMovieId === 'b')?.coRatings).toBe(3);
+  });
+
+  it('keeps only positive similarities', () => {
+    const similarities = ItemSimilarityService.computeSimilarities(ratings);
+
+    expect(score(similarities, 'a', 'c')).toBeUndefined();
+    expect(similarities.every(s => s.score > 0)).toBe(true);
+  });
+
+  it('centres ratings on each user\'s mean', () => {
+    // The same tastes on two scales: x and y are favourites, z is the least liked even
+    // at 3 stars, so it is dissimilar to x although every raw rating is positive
+    const similarities = ItemSimilarityService.computeSimilarities([
+      rating('generous', 'x', 5), rating('generous', 'y', 5), rating('generous', 'z', 3),
+      rating('harsh', 'x', 3), rating('harsh', 'y', 3), rating('harsh', 'z', 1),
+    ]);
+
+    expect(score(similarities, 'x', 'y')).toBeCloseTo(1);
+    expect(score(similarities, 'x', 'z')).toBeUndefined();
+  });
+
+  it('needs at least two users who rated both movies', () => {
+    const similarities = ItemSimilarityService.computeSimilarities([
+      rating('u1', 'a', 5), rating('u1', 'b', 5), rating('u1', 'c', 1),
+    ]);
+
+    expect(similarities).toEqual([]);
+  });
+
+  it('keeps the top `neighbours` per movie', () => {
+    const similarities = ItemSimilarityService.computeSimilarities([
+      ...ratings,
+      rating('u1', 'd', 4), rating('u2', 'd', 1), rating('u3', 'd', 5),
+    ], 1);
+
+    const forA = similarities.filter(s => s.movieId === 'a');
+    expect(forA).toHaveLength(1);
+  });
+});
@@ -0,0 +1,84 @@
+import { Rating, MovieSimilarity } from '../types';
+import { db } from './database';
+
+const DEFAULT_NEIGHBOURS = 50; // Similar movies kept per movie
+const MIN_CO_RATINGS = 2; // Users who must have rated both movies
+
+export class ItemSimilarityService {
+  // Recompute the whole item-item table from the ratings and persist it
+  static async rebuild(neighbours = DEFAULT_NEIGHBOURS): Promise<{ ratings: number; pairs: number }> {
+    const allRatings = await db.getAllRatings();
+    const similarities = this.computeSimilarities(allRatings, neighbours);
+    await db.replaceMovieSimilarities(similarities);
+    return { ratings: allRatings.length, pairs: similarities.length };
+  }
+
+  // Adjusted cosine: each rating is centred on its user's mean before comparing
+  // two movies, so generous and harsh raters contribute on the same scale.
+  static computeSimilarities(
+    allRatings: Rating[],
+    neighbours = DEFAULT_NEIGHBOURS
+  ): Omit<MovieSimilarity, 'updatedAt'>[] {
+    const ratingsByUser = new Map<string, Rating[]>();
+    allRatings.forEach(rating => {
+      const userRatings = ratingsByUser.get(rating.userId) || [];
+      userRatings.push(rating);
+      ratingsByUser.set(rating.userId, userRatings);
+    });
+
+    // Accumulate dot products and co-rated norms for every pair of movies
+    const pairs = new Map<string, { dot: number; normA: number; normB: number; count: number }>();
+
+    ratingsByUser.forEach(userRatings => {
+      if (userRatings.length < 2) return;
+
+      const mean = userRatings.reduce((sum, r) => sum + r.rating, 0) / userRatings.length;
+      const centred = userRatings
+        .map(r => ({ movieId: r.movieId, value: r.rating - mean }))
+        .sort((a, b) => a.movieId.localeCompare(b.movieId));
+
+      for (let i = 0; i < centred.length; i++) {
+        for (let j = i + 1; j < centred.length; j++) {
+          const key = `${centred[i].movieId}|${centred[j].movieId}`;
+          const pair = pairs.get(key) || { dot: 0, normA: 0, normB: 0, count: 0 };
+          pair.dot += centred[i].value * centred[j].value;
+          pair.normA += centred[i].value * centred[i].value;
+          pair.normB += centred[j].value * centred[j].value;
+          pair.count += 1;
+          pairs.set(key, pair);
+        }
+      }
+    });
+
+    const neighboursByMovie = new Map<string, Omit<MovieSimilarity, 'updatedAt'>[]>();
+    const addNeighbour = (similarity: Omit<MovieSimilarity, 'updatedAt'>): void => {
+      const list = neighboursByMovie.get(similarity.movieId) || [];
+      list.push(similarity);
+      neighboursByMovie.set(similarity.movieId, list);
+    };
+
+    pairs.forEach(({ dot, normA, normB, count }, key) => {
+      if (count < MIN_CO_RATINGS) return;
+
+      const den = Math.sqrt(normA) * Math.sqrt(normB);
+      if (den === 0) return;
+
+      const score = dot / den;
+      if (score <= 0) return; // Only positive neighbours are useful for ranking
+
+      const [movieA, movieB] = key.split('|');
+      addNeighbour({ movieId: movieA, similarMovieId: movieB, score, coRatings: count });
+      addNeighbour({ movieId: movieB, similarMovieId: movieA, score, coRatings: count });
+    });
+
+    const similarities: Omit<MovieSimilarity, 'updatedAt'>[] = [];
+    neighboursByMovie.forEach(list => {
+      list
+        .sort((a, b) => b.score - a.score)
+        .slice(0, neighbours)
+        .forEach(similarity => similarities.push(similarity));
+    });
+
+    return similarities;
+  }
+}
@@ -0,0 +1,213 @@
+import { Rating, FactorModel, LatentFactors } from '../types';
+import { db } from './database';
+import { RecommendationSource, liveSource, isLiveSource } from './recommendationSource';
+
+export interface TrainingOptions {
+  factors: number;
+  epochs: number;
+  learningRate: number;
+  regularization: number;
+  seed: number;
+}
+
+const DEFAULT_OPTIONS: TrainingOptions = {
+  factors: 20,
+  epochs: 40,
+  learningRate: 0.01,
+  regularization: 0.05,
+  seed: 42,
+};
+
+const MODEL_RELOAD_INTERVAL = 10 * 60 * 1000; // Pick up newly trained models every 10 minutes
+const FOLD_IN_REGULARIZATION = 0.1;
+const FOLD_IN_BIAS_DAMPING = 5; // Pulls the bias of users with few ratings towards zero
+
+export class MatrixFactorizationService {
+  private static model: FactorModel | null = null;
+  private static loadedAt = 0;
+
+  static async trainAndSave(options: Partial<TrainingOptions> = {}): Promise<FactorModel> {
+    const ratings = await db.getAllRatings();
+    const model = await db.saveFactorModel(this.train(ratings, options));
+
+    this.model = model;
+    this.loadedAt = Date.now();
+    return model;
+  }
+
+  // Biased matrix factorization trained with stochastic gradient descent
+  static train(
+    ratings: Rating[],
+    options: Partial<TrainingOptions> = {}
+  ): Omit<FactorModel, 'id' | 'createdAt'> {
+    const { factors, epochs, learningRate, regularization, seed } = { ...DEFAULT_OPTIONS, ...options };
+    const random = this.createRandom(seed);
+    const initFactors = (): LatentFactors => ({
+      bias: 0,
+      vector: Array.from({ length: factors }, () => (random() - 0.5) * 0.1),
+    });
+
+    const globalMean = ratings.length > 0
+      ? ratings.reduce((sum, r) => sum + r.rating, 0) / ratings.length
+      : 0;
+    const userFactors: Record<string, LatentFactors> = {};
+    const movieFactors: Record<string, LatentFactors> = {};
+
+    ratings.forEach(rating => {
+      if (!userFactors[rating.userId]) userFactors[rating.userId] = initFactors();
+      if (!movieFactors[rating.movieId]) movieFactors[rating.movieId] = initFactors();
+    });
+
+    const order = ratings.map((_, index) => index);
+    let rmse = 0;
+
+    for (let epoch = 0; epoch < epochs; epoch++) {
+      this.shuffle(order, random);
+      let squaredError = 0;
+
+      for (const index of order) {
+        const rating = ratings[index];
+        const user = userFactors[rating.userId];
+        const movie = movieFactors[rating.movieId];
+        const error = rating.rating - this.predictRaw(globalMean, user, movie);
+        squaredError += error * error;
+
+        user.bias += learningRate * (error - regularization * user.bias);
+        movie.bias += learningRate * (error - regularization * movie.bias);
+
+        for (let f = 0; f < factors; f++) {
+          const userValue = user.vector[f];
+          const movieValue = movie.vector[f];
+          user.vector[f] += learningRate * (error * movieValue - regularization * userValue);
+          movie.vector[f] += learningRate * (error * userValue - regularization * movieValue);
+        }
+      }
+
+      rmse = ratings.length > 0 ? Math.sqrt(squaredError / ratings.length) : 0;
+    }
+
+    return { factors, globalMean, rmse, userFactors, movieFactors };
+  }
+
+  static async getModel(source: RecommendationSource = liveSource()): Promise<FactorModel | null> {
+    if (!isLiveSource(source)) return source.data.getLatestFactorModel();
+    if (!this.model || Date.now() - this.loadedAt > MODEL_RELOAD_INTERVAL) {
+      this.model = await db.getLatestFactorModel();
+      this.loadedAt = Date.now();
+    }
+    return this.model;
+  }
+
+  // Use the trained user factors when they are still current, otherwise fold the
+  // user's latest ratings into the model so new and sparse raters are covered.
+  static getUserFactors(model: FactorModel, userId: string, userRatings: Rating[]): LatentFactors | null {
+    const stored = model.userFactors[userId];
+    const ratedSinceTraining = userRatings.some(r =>
+      (r.updatedAt || r.createdAt) > new Date(model.createdAt)
+    );
+
+    if (stored && !ratedSinceTraining) {
+      return stored;
+    }
+    return this.foldInUser(model, userRatings);
+  }
+
+  // Solve for a user's factors with the movie factors held fixed (one ALS step)
+  static foldInUser(model: FactorModel, userRatings: Rating[]): LatentFactors | null {
+    const known = userRatings.filter(r => model.movieFactors[r.movieId]);
+    if (known.length === 0) return null;
+
+    const residualSum = known.reduce(
+      (sum, r) => sum + r.rating - model.globalMean - model.movieFactors[r.movieId].bias,
+      0
+    );
+    const bias = residualSum / (known.length + FOLD_IN_BIAS_DAMPING);
+
+    const k = model.factors;
+    const lambda = FOLD_IN_REGULARIZATION * known.length;
+    const a = Array.from({ length: k }, (_, i) =>
+      Array.from({ length: k }, (_, j) => (i === j ? lambda : 0))
+    );
+    const b = new Array(k).fill(0);
+
+    known.forEach(rating => {
+      const movie = model.movieFactors[rating.movieId];
+      const residual = rating.rating - model.globalMean - bias - movie.bias;
+      for (let i = 0; i < k; i++) {
+        b[i] += movie.vector[i] * residual;
+        for (let j = 0; j < k; j++) {
+          a[i][j] += movie.vector[i] * movie.vector[j];
+        }
+      }
+    });
+
+    return { bias, vector: this.solve(a, b) };
+  }
+
+  // Predicted star rating, or null when the movie was not part of training
+  static predict(model: FactorModel, user: LatentFactors, movieId: string): number | null {
+    const movie = model.movieFactors[movieId];
+    if (!movie) return null;
+    return Math.max(1, Math.min(5, this.predictRaw(model.globalMean, user, movie)));
+  }
+
+  private static predictRaw(globalMean: number, user: LatentFactors, movie: LatentFactors): number {
+    let dot = 0;
+    for (let f = 0; f < user.vector.length; f++) {
+      dot += user.vector[f] * movie.vector[f];
+    }
+    return globalMean + user.bias + movie.bias + dot;
+  }
+
+  // Gaussian elimination with partial pivoting
+  private static solve(a: number[][], b: number[]): number[] {
+    const n = b.length;
+    const m = a.map((row, i) => [...row, b[i]]);
+
+    for (let col = 0; col < n; col++) {
+      let pivot = col;
+      for (let row = col + 1; row < n; row++) {
+        if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+      }
+      [m[col], m[pivot]] = [m[pivot], m[col]];
+      if (Math.abs(m[col][col]) < 1e-12) continue;
+
+      for (let row = col + 1; row < n; row++) {
+        const factor = m[row][col] / m[col][col];
+        for (let c = col; c <= n; c++) {
+          m[row][c] -= factor * m[col][c];
+        }
+      }
+    }
+
+    const x = new Array(n).fill(0);
+    for (let row = n - 1; row >= 0; row--) {
+      if (Math.abs(m[row][row]) < 1e-12) continue;
+      let sum = m[row][n];
+      for (let c = row + 1; c < n; c++) {
+        sum -= m[row][c] * x[c];
+      }
+      x[row] = sum / m[row][row];
+    }
+    return x;
+  }
+
+  private static shuffle(values: number[], random: () => number): void {
+    for (let i = values.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [values[i], values[j]] = [values[j], values[i]];
+    }
+  }
+
+  // Seeded PRNG (mulberry32) so training runs are reproducible
+  private static createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+}
@@ -81,7 +81,7 @@ export const watchlistItemsTotal = new Gauge({
 export const recommendationsGenerated = new Counter({
   name: 'recommendations_generated_total',
   help: 'Total number of recommendations generated',
-  labelNames: ['algorithm', 'status'],
+  labelNames: ['algorithm', 'status', 'experiment', 'variant'],
   registers: [register],
 });
 
@@ -93,6 +93,50 @@ export const recommendationDuration = new Histogram({
   registers: [register],
 });
 
+// Recommendation quality: live counters, and rates over the reporting window
+// (RECOMMENDATION_QUALITY_WINDOW_DAYS) refreshed from the impression log
+export const recommendationImpressions = new Counter({
+  name: 'recommendation_impressions_total',
+  help: 'Total number of movies shown in recommendation lists',
+  labelNames: ['algorithm'],
+  registers: [register],
+});
+
+export const recommendationClicks = new Counter({
+  name: 'recommendation_clicks_total',
+  help: 'Total number of recommended movies clicked',
+  labelNames: ['algorithm'],
+  registers: [register],
+});
+
+export const recommendationConversions = new Counter({
+  name: 'recommendation_conversions_total',
+  help: 'Total number of recommended movies rated or watchlisted',
+  labelNames: ['algorithm', 'type'],
+  registers: [register],
+});
+
+export const recommendationCtr = new Gauge({
+  name: 'recommendation_ctr',
+  help: 'Clicks per recommendation impression over the reporting window',
+  labelNames: ['algorithm'],
+  registers: [register],
+});
+
+export const recommendationConversionRate = new Gauge({
+  name: 'recommendation_conversion_rate',
+  help: 'Conversions per recommendation impression over the reporting window',
+  labelNames: ['algorithm'],
+  registers: [register],
+});
+
+export const recommendationMrr = new Gauge({
+  name: 'recommendation_mrr',
+  help: 'Mean reciprocal rank of the first click per recommendation list over the reporting window',
+  labelNames: ['algorithm'],
+  registers: [register],
+});
+
 // External API Metrics
 export const tmdbApiRequests = new Counter({
   name: 'tmdb_api_requests_total',
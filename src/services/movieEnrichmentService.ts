@@ -1,5 +1,7 @@
 import { tmdbService } from './tmdbService';
 import { db } from './database';
+import { TextSimilarityService } from './textSimilarityService';
+import { embeddingService } from './embeddingService';
 import { Movie } from '../types';
 
 export class MovieEnrichmentService {
@@ -32,7 +34,9 @@ export class MovieEnrichmentService {
           description: exactMatch.description || movie.description,
         };
 
-        await db.updateMovie(movie.id, enrichedMovie);
+        const savedMovie = await db.updateMovie(movie.id, enrichedMovie);
+        await TextSimilarityService.refreshMovie(savedMovie);
+        embeddingService.refreshMovie(savedMovie);
         return enrichedMovie;
       }
     } catch (error) {
@@ -146,7 +150,9 @@ export class MovieEnrichmentService {
         id: movie.id,
       };
 
-      await db.updateMovie(movieId, mergedMovie);
+      const savedMovie = await db.updateMovie(movieId, mergedMovie);
+      await TextSimilarityService.refreshMovie(savedMovie);
+      embeddingService.refreshMovie(savedMovie);
       return mergedMovie;
     } catch (error) {
       console.error('Failed to update movie metadata:', error);
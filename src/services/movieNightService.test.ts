@@ -0,0 +1,88 @@
+import { MovieNightService } from './movieNightService';
+
+describe('MovieNightService.tally', () => {
+  const candidates = ['a', 'b', 'c'];
+
+  describe('ranked', () => {
+    it('picks a first-round majority without eliminating anyone', () => {
+      const tally = MovieNightService.tally('ranked', candidates, [['a', 'b'], ['a'], ['b', 'a']]);
+
+      expect(tally.winnerMovieId).toBe('a');
+      expect(tally.ballots).toBe(3);
+      expect(tally.rounds).toHaveLength(1);
+      expect(tally.results).toEqual([
+        { movieId: 'a', votes: 2 },
+        { movieId: 'b', votes: 1 },
+        { movieId: 'c', votes: 0 },
+      ]);
+    });
+
+    it('transfers eliminated ballots to their next choice', () => {
+      const ballots = [['a'], ['a'], ['b'], ['b'], ['c', 'b']];
+      const tally = MovieNightService.tally('ranked', candidates, ballots);
+
+      expect(tally.rounds.map(round => round.eliminated)).toEqual(['c', undefined]);
+      expect(tally.winnerMovieId).toBe('b');
+      expect(tally.results[0]).toEqual({ movieId: 'b', votes: 3 });
+    });
+
+    it('eliminates the later candidate on a tie for last place', () => {
+      const tally = MovieNightService.tally('ranked', candidates, [['a'], ['b'], ['c']]);
+
+      expect(tally.rounds[0].eliminated).toBe('c');
+      expect(tally.rounds[1].eliminated).toBe('b');
+      expect(tally.winnerMovieId).toBe('a');
+    });
+
+    it('drops exhausted ballots from the majority', () => {
+      // After c goes, the c-only ballot counts for nobody: 2 of 3 active ballots is a majority
+      const ballots = [['a'], ['a'], ['b'], ['c']];
+      const tally = MovieNightService.tally('ranked', candidates, ballots);
+
+      expect(tally.winnerMovieId).toBe('a');
+      expect(tally.rounds[tally.rounds.length - 1].results).toEqual([
+        { movieId: 'a', votes: 2 },
+        { movieId: 'b', votes: 1 },
+      ]);
+    });
+
+    it('has no winner without ballots', () => {
+      const tally = MovieNightService.tally('ranked', candidates, []);
+
+      expect(tally.winnerMovieId).toBeNull();
+      expect(tally.rounds).toHaveLength(1);
+    });
+  });
+
+  describe('approval', () => {
+    it('picks the most approved movie in a single round', () => {
+      const tally = MovieNightService.tally('approval', candidates, [['a', 'b'], ['b', 'c'], ['b']]);
+
+      expect(tally.method).toBe('approval');
+      expect(tally.winnerMovieId).toBe('b');
+      expect(tally.rounds).toHaveLength(1);
+      expect(tally.results).toEqual([
+        { movieId: 'b', votes: 3 },
+        { movieId: 'a', votes: 1 },
+        { movieId: 'c', votes: 1 },
+      ]);
+    });
+
+    it('breaks ties in favour of the earlier candidate', () => {
+      const tally = MovieNightService.tally('approval', candidates, [['c'], ['b']]);
+
+      expect(tally.winnerMovieId).toBe('b');
+    });
+
+    it('ignores movies that are not candidates', () => {
+      const tally = MovieNightService.tally('approval', candidates, [['x', 'c']]);
+
+      expect(tally.winnerMovieId).toBe('c');
+      expect(tally.results.map(result => result.movieId)).not.toContain('x');
+    });
+
+    it('has no winner without ballots', () => {
+      expect(MovieNightService.tally('approval', candidates, []).winnerMovieId).toBeNull();
+    });
+  });
+});
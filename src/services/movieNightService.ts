@@ -0,0 +1,149 @@
+import {
+  Movie,
+  User,
+  VotingCandidate,
+  VotingCandidateSource,
+  VotingMethod,
+  VotingResult,
+  VotingRound,
+  VotingTally,
+} from '../types';
+import { db } from './database';
+import { GroupRecommender } from './groupRecommender';
+
+const PRIORITY_ORDER = { high: 0, medium: 1, low: 2 };
+
+export interface CandidateOptions {
+  movieIds: string[];
+  fromWatchlist?: number; // take the host's top N unwatched watchlist movies
+  fromRecommendations?: number; // take the host's top N recommendations
+}
+
+export class MovieNightService {
+  // Candidates in display order: explicit picks, then the host's watchlist, then recommendations
+  static async buildCandidates(
+    host: User,
+    allMovies: Movie[],
+    options: CandidateOptions
+  ): Promise<VotingCandidate[]> {
+    const candidates: VotingCandidate[] = [];
+    const add = (movieId: string, source: VotingCandidateSource): boolean => {
+      if (candidates.some(c => c.movieId === movieId)) return false;
+      candidates.push({ movieId, source, position: candidates.length });
+      return true;
+    };
+
+    options.movieIds.forEach(movieId => add(movieId, 'manual'));
+
+    if (options.fromWatchlist) {
+      // Newest first within each priority
+      const watchlist = await db.getUserWatchlist(host.id);
+      watchlist
+        .sort((a, b) => PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority])
+        .slice(0, options.fromWatchlist)
+        .forEach(item => add(item.movieId, 'watchlist'));
+    }
+
+    if (options.fromRecommendations) {
+      // The host's tastes only: invitees have not joined yet, so theirs are not shared
+      const recommendations = await GroupRecommender.generateRecommendations(
+        [host], allMovies, 'least_misery', options.fromRecommendations + candidates.length
+      );
+      let added = 0;
+      for (const rec of recommendations) {
+        if (added >= options.fromRecommendations) break;
+        if (add(rec.movie.id, 'recommendation')) added++;
+      }
+    }
+
+    return candidates;
+  }
+
+  // Returns an error message, or null when the ballot is valid
+  static validateBallot(candidateIds: string[], ballot: string[]): string | null {
+    const unknown = ballot.filter(movieId => !candidateIds.includes(movieId));
+    if (unknown.length > 0) {
+      return `Not candidates in this session: ${unknown.join(', ')}`;
+    }
+    if (new Set(ballot).size !== ballot.length) {
+      return 'Each movie can appear only once on a ballot';
+    }
+    return null;
+  }
+
+  static tally(method: VotingMethod, candidateIds: string[], ballots: string[][]): VotingTally {
+    return method === 'approval'
+      ? this.approvalTally(candidateIds, ballots)
+      : this.instantRunoffTally(candidateIds, ballots);
+  }
+
+  // The most approved movie wins; ties go to the earlier candidate
+  private static approvalTally(candidateIds: string[], ballots: string[][]): VotingTally {
+    const votes = new Map(candidateIds.map(movieId => [movieId, 0]));
+    ballots.forEach(ballot => {
+      ballot.forEach(movieId => {
+        if (votes.has(movieId)) votes.set(movieId, (votes.get(movieId) || 0) + 1);
+      });
+    });
+
+    const results = this.rank(candidateIds, votes);
+    return {
+      method: 'approval',
+      ballots: ballots.length,
+      winnerMovieId: ballots.length > 0 ? results[0].movieId : null,
+      results,
+      rounds: [{ results }],
+    };
+  }
+
+  // Instant runoff: each ballot counts for its highest-ranked movie still in the race.
+  // Until one movie has a majority of those votes, the weakest is eliminated
+  // (ties eliminate the later candidate).
+  private static instantRunoffTally(candidateIds: string[], ballots: string[][]): VotingTally {
+    const rounds: VotingRound[] = [];
+    let remaining = [...candidateIds];
+    let winnerMovieId: string | null = null;
+
+    while (remaining.length > 0) {
+      const votes = new Map(remaining.map(movieId => [movieId, 0]));
+      let activeBallots = 0;
+      ballots.forEach(ballot => {
+        const choice = ballot.find(movieId => votes.has(movieId));
+        if (choice) {
+          votes.set(choice, (votes.get(choice) || 0) + 1);
+          activeBallots++;
+        }
+      });
+
+      const results = this.rank(remaining, votes);
+      if (activeBallots === 0) {
+        rounds.push({ results });
+        break;
+      }
+      if (results[0].votes * 2 > activeBallots || remaining.length === 1) {
+        winnerMovieId = results[0].movieId;
+        rounds.push({ results });
+        break;
+      }
+
+      const eliminated = results[results.length - 1].movieId;
+      rounds.push({ results, eliminated });
+      remaining = remaining.filter(movieId => movieId !== eliminated);
+    }
+
+    return {
+      method: 'ranked',
+      ballots: ballots.length,
+      winnerMovieId,
+      results: rounds.length > 0 ? rounds[rounds.length - 1].results : [],
+      rounds,
+    };
+  }
+
+  // Most votes first; the sort is stable, so ties keep candidate order
+  private static rank(movieIds: string[], votes: Map<string, number>): VotingResult[] {
+    return movieIds
+      .map(movieId => ({ movieId, votes: votes.get(movieId) || 0 }))
+      .sort((a, b) => b.votes - a.votes);
+  }
+}
@@ -0,0 +1,85 @@
+import { Movie, Rating, Recommendation } from '../types';
+import { ExplanationBuilder } from './explanationBuilder';
+
+// Largest share of a score removed for resembling a movie the user disliked
+const DISLIKE_PENALTY = Number(process.env.DISLIKE_PENALTY || 0.5);
+// Weaker resemblances (a single shared genre among several) are ignored
+const MIN_DISLIKE_SIMILARITY = 0.25;
+
+export interface DislikedMovie {
+  movie: Movie;
+  rating: number;
+  strength: number; // 1 for a 1-star rating, less for milder dislikes
+}
+
+export class NegativeProfile {
+  // 1-2 stars, or explicitly not liked at 3 stars
+  static isDisliked(rating: Rating): boolean {
+    return rating.rating <= 2 || (!rating.liked && rating.rating <= 3);
+  }
+
+  static build(userRatings: Rating[], moviesById: Map<string, Movie>): DislikedMovie[] {
+    const disliked: DislikedMovie[] = [];
+    userRatings.filter(r => this.isDisliked(r)).forEach(rating => {
+      const movie = moviesById.get(rating.movieId);
+      if (!movie) return;
+      disliked.push({ movie, rating: rating.rating, strength: rating.rating === 1 ? 1 : rating.rating === 2 ? 0.75 : 0.5 });
+    });
+    return disliked;
+  }
+
+  // Genres and director only: era and external rating say little about why a movie was disliked
+  static similarity(movie: Movie, other: Movie): number {
+    const genres = movie.genre.map(g => g.toLowerCase());
+    const otherGenres = other.genre.map(g => g.toLowerCase());
+    const overlap = genres.filter(g => otherGenres.includes(g)).length;
+    const union = new Set([...genres, ...otherGenres]).size;
+    const sameDirector = Boolean(movie.director && other.director &&
+      movie.director.toLowerCase() === other.director.toLowerCase());
+
+    return (union > 0 ? (overlap / union) * 0.6 : 0) + (sameDirector ? 0.4 : 0);
+  }
+
+  // Penalty (0 to DISLIKE_PENALTY) and the disliked movie the candidate resembles most
+  static penalty(movie: Movie, disliked: DislikedMovie[]): { penalty: number; closest?: DislikedMovie } {
+    let penalty = 0;
+    let closest: DislikedMovie | undefined;
+
+    disliked.forEach(item => {
+      const similarity = this.similarity(movie, item.movie);
+      if (similarity < MIN_DISLIKE_SIMILARITY) return;
+      const itemPenalty = DISLIKE_PENALTY * similarity * item.strength;
+      if (itemPenalty > penalty) {
+        penalty = itemPenalty;
+        closest = item;
+      }
+    });
+
+    return { penalty, closest };
+  }
+
+  // Scales the score down, so it works on every strategy's score range
+  static penalize(rec: Recommendation, disliked: DislikedMovie[]): Recommendation {
+    const { penalty, closest } = this.penalty(rec.movie, disliked);
+    if (!closest) return rec;
+
+    return {
+      ...rec,
+      score: rec.score * (1 - penalty),
+      reason: `${rec.reason} (but similar to ${closest.movie.title}, which you disliked)`,
+      explanation: {
+        ...ExplanationBuilder.addSignal(rec.explanation, { source: 'dislikes', weight: 1, score: -penalty * rec.score }),
+        dislikedMovies: [ExplanationBuilder.seed(closest.movie, closest.rating)],
+      },
+    };
+  }
+
+  // Re-score and re-sort a recommendation list
+  static apply(recommendations: Recommendation[], disliked: DislikedMovie[]): Recommendation[] {
+    if (disliked.length === 0) return recommendations;
+
+    return recommendations
+      .map(rec => this.penalize(rec, disliked))
+      .sort((a, b) => b.score - a.score);
+  }
+}
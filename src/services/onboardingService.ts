@@ -0,0 +1,82 @@
+import { Movie, Rating } from '../types';
+
+const REPEATED_DECADE_PENALTY = 0.6;
+
+export interface OnboardingMovie {
+  movie: Movie;
+  ratingCount: number;
+  informativeness: number;
+}
+
+export class OnboardingService {
+  // Greedily pick movies that are both informative to rate and spread across
+  // genres and decades, so a handful of answers covers as much taste as possible.
+  static selectMovies(
+    allMovies: Movie[],
+    allRatings: Rating[],
+    excludeMovieIds: Set<string>,
+    count = 12
+  ): OnboardingMovie[] {
+    const ratingsByMovie = new Map<string, number[]>();
+    allRatings.forEach(r => {
+      const values = ratingsByMovie.get(r.movieId) || [];
+      values.push(r.rating);
+      ratingsByMovie.set(r.movieId, values);
+    });
+
+    const pool = allMovies
+      .filter(movie => !excludeMovieIds.has(movie.id))
+      .map(movie => {
+        const values = ratingsByMovie.get(movie.id) || [];
+        return {
+          movie,
+          ratingCount: values.length,
+          informativeness: this.informativeness(movie, values),
+        };
+      });
+
+    const selected: OnboardingMovie[] = [];
+    const genreCoverage = new Map<string, number>();
+    const coveredDecades = new Set<number>();
+
+    while (selected.length < count && pool.length > 0) {
+      let bestIndex = 0;
+      let bestScore = -Infinity;
+
+      pool.forEach((candidate, index) => {
+        const genreRepeats = candidate.movie.genre
+          .reduce((sum, g) => sum + (genreCoverage.get(g.toLowerCase()) || 0), 0);
+        const decade = Math.floor(candidate.movie.year / 10) * 10;
+        const score = candidate.informativeness
+          / (1 + genreRepeats)
+          * (coveredDecades.has(decade) ? REPEATED_DECADE_PENALTY : 1);
+
+        if (score > bestScore) {
+          bestScore = score;
+          bestIndex = index;
+        }
+      });
+
+      const [pick] = pool.splice(bestIndex, 1);
+      pick.movie.genre.forEach(g => {
+        genreCoverage.set(g.toLowerCase(), (genreCoverage.get(g.toLowerCase()) || 0) + 1);
+      });
+      coveredDecades.add(Math.floor(pick.movie.year / 10) * 10);
+      selected.push(pick);
+    }
+
+    return selected;
+  }
+
+  // Widely seen movies are likely to get an answer, and polarizing ones
+  // (high rating spread) separate users better than universally loved ones.
+  private static informativeness(movie: Movie, ratings: number[]): number {
+    const popularity = Math.log2(1 + ratings.length);
+    const mean = ratings.length > 0 ? ratings.reduce((a, b) => a + b, 0) / ratings.length : 0;
+    const variance = ratings.length > 0
+      ? ratings.reduce((sum, r) => sum + (r - mean) * (r - mean), 0) / ratings.length
+      : 0;
+
+    return popularity * (1 + Math.sqrt(variance)) + (movie.rating || 0) / 10;
+  }
+}
@@ -0,0 +1,168 @@
+import { Movie, MovieScore, Rating, Recommendation, WatchlistItem } from '../types';
+import { db } from './database';
+import { ExplanationBuilder } from './explanationBuilder';
+import { RecommendationSource, liveSource, isLiveSource } from './recommendationSource';
+
+const PRIOR_RATINGS = Number(process.env.POPULARITY_PRIOR_RATINGS || 10); // Pseudo-ratings at the global mean
+const TRENDING_HALF_LIFE_DAYS = Number(process.env.TRENDING_HALF_LIFE_DAYS || 7);
+const WATCHLIST_WEIGHT = 0.5; // A watchlist add counts as half a rating
+const COLD_START_TRENDING_SHARE = 0.3;
+const SCORES_RELOAD_INTERVAL = 10 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class PopularityService {
+  private static scores: Map<string, MovieScore> | null = null;
+  private static loadedAt = 0;
+  private static timer: NodeJS.Timeout | null = null;
+
+  static compute(
+    movies: Movie[],
+    ratings: Rating[],
+    watchlistItems: WatchlistItem[],
+    now = new Date()
+  ): Omit<MovieScore, 'updatedAt'>[] {
+    const globalMean = ratings.length > 0
+      ? ratings.reduce((sum, r) => sum + r.rating, 0) / ratings.length
+      : 3;
+    const decay = (date: Date): number => {
+      const ageDays = Math.max(0, (now.getTime() - new Date(date).getTime()) / DAY_MS);
+      return Math.pow(0.5, ageDays / TRENDING_HALF_LIFE_DAYS);
+    };
+
+    const stats = new Map(movies.map(movie => [movie.id, {
+      ratingSum: 0,
+      ratingCount: 0,
+      watchlistCount: 0,
+      recentActivity: 0,
+    }]));
+
+    ratings.forEach(rating => {
+      const movieStats = stats.get(rating.movieId);
+      if (!movieStats) return;
+      movieStats.ratingSum += rating.rating;
+      movieStats.ratingCount++;
+      // Enthusiastic ratings make a movie trend more than lukewarm ones
+      movieStats.recentActivity += decay(rating.updatedAt || rating.createdAt) * (rating.rating / 5);
+    });
+
+    watchlistItems.forEach(item => {
+      const movieStats = stats.get(item.movieId);
+      if (!movieStats) return;
+      movieStats.watchlistCount++;
+      movieStats.recentActivity += decay(item.addedAt) * WATCHLIST_WEIGHT;
+    });
+
+    const raw = Array.from(stats.entries()).map(([movieId, s]) => {
+      const bayesianRating = (PRIOR_RATINGS * globalMean + s.ratingSum) / (PRIOR_RATINGS + s.ratingCount);
+      const activity = s.ratingCount + WATCHLIST_WEIGHT * s.watchlistCount;
+      return {
+        movieId,
+        popularity: ((bayesianRating - 1) / 4) * Math.log(1 + activity),
+        trending: s.recentActivity,
+        bayesianRating,
+        ratingCount: s.ratingCount,
+        watchlistCount: s.watchlistCount,
+      };
+    });
+
+    // Scale both scores to 0-1 so they can be blended with other signals
+    const maxPopularity = Math.max(0, ...raw.map(r => r.popularity)) || 1;
+    const maxTrending = Math.max(0, ...raw.map(r => r.trending)) || 1;
+    return raw.map(r => ({
+      ...r,
+      popularity: r.popularity / maxPopularity,
+      trending: r.trending / maxTrending,
+    }));
+  }
+
+  static async refresh(): Promise<number> {
+    const { movies } = await db.getMovies();
+    const ratings = await db.getAllRatings();
+    const watchlistItems = await db.getAllWatchlistItems();
+
+    const scores = this.compute(movies, ratings, watchlistItems);
+    await db.replaceMovieScores(scores);
+
+    this.scores = new Map(scores.map(score => [score.movieId, score]));
+    this.loadedAt = Date.now();
+    return scores.length;
+  }
+
+  // Recompute now and then every `intervalMs`; failures are logged and retried on the next tick
+  static scheduleRefresh(intervalMs: number): void {
+    const run = (): void => {
+      this.refresh().catch(error => console.error('Failed to refresh popularity scores:', error));
+    };
+
+    run();
+    if (this.timer) clearInterval(this.timer);
+    this.timer = setInterval(run, intervalMs);
+    this.timer.unref();
+  }
+
+  static async getScores(source: RecommendationSource = liveSource()): Promise<Map<string, MovieScore>> {
+    if (!isLiveSource(source)) {
+      return new Map((await source.data.getMovieScores()).map(score => [score.movieId, score]));
+    }
+    if (!this.scores || Date.now() - this.loadedAt > SCORES_RELOAD_INTERVAL) {
+      const scores = await db.getMovieScores();
+      this.scores = new Map(scores.map(score => [score.movieId, score]));
+      this.loadedAt = Date.now();
+    }
+    return this.scores;
+  }
+
+  // Cold-start fallback shared by every strategy: mostly all-time popularity, with a
+  // share of what is trending. Movies nobody has interacted with yet (and everything,
+  // before the first refresh) are ranked by their external rating.
+  static async recommend(
+    candidates: Movie[],
+    limit: number,
+    source: RecommendationSource = liveSource()
+  ): Promise<Recommendation[]> {
+    let scores = new Map<string, MovieScore>();
+    try {
+      scores = await this.getScores(source);
+    } catch (error) {
+      console.error('Failed to load popularity scores:', error);
+    }
+
+    const popular: Recommendation[] = candidates
+      .map(movie => {
+        const score = scores.get(movie.id);
+        const value = score
+          ? (1 - COLD_START_TRENDING_SHARE) * score.popularity + COLD_START_TRENDING_SHARE * score.trending
+          : 0;
+        return { movie, score, value };
+      })
+      .filter(item => item.score && item.value > 0)
+      .sort((a, b) => b.value - a.value)
+      .slice(0, limit)
+      .map(({ movie, score, value }) => ({
+        movie,
+        score: 0.8 * value,
+        reason: score && score.trending > score.popularity
+          ? 'Trending with other users right now'
+          : `Popular with other users (${score?.bayesianRating.toFixed(1)}/5 from ${score?.ratingCount} ratings)`,
+        explanation: ExplanationBuilder.create('popular', 'popularity', value),
+      }));
+
+    if (popular.length >= limit) return popular;
+
+    // Ranked below every movie with activity; the same 0.8, 0.75, ... scale as before the first refresh
+    const included = new Set(popular.map(rec => rec.movie.id));
+    const start = popular.length > 0 ? popular[popular.length - 1].score : 0.85;
+    const highlyRated = candidates
+      .filter(movie => !included.has(movie.id) && movie.rating && movie.rating >= 7)
+      .sort((a, b) => (b.rating || 0) - (a.rating || 0))
+      .slice(0, limit - popular.length)
+      .map((movie, index) => ({
+        movie,
+        score: Math.max(0.01, start - ((index + 1) * 0.05)),
+        reason: 'Popular highly-rated movie',
+        explanation: ExplanationBuilder.create('popular', 'popularity', 0),
+      }));
+
+    return [...popular, ...highlyRated];
+  }
+}
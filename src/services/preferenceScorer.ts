@@ -0,0 +1,89 @@
+import { Movie, MoviePreferences, Recommendation } from '../types';
+import { ExplanationBuilder } from './explanationBuilder';
+
+const LIKED_GENRE_BOOST = 0.15;
+const DISLIKED_GENRE_PENALTY = 0.3;
+const OUT_OF_YEAR_RANGE_PENALTY = 0.1;
+
+export class PreferenceScorer {
+  // Score adjustment for a movie from the user's stated preferences
+  static adjustment(movie: Movie, preferences?: MoviePreferences): number {
+    if (!preferences) return 0;
+
+    const genres = movie.genre.map(g => g.toLowerCase());
+    const liked = preferences.likedGenres.map(g => g.toLowerCase());
+    const disliked = preferences.dislikedGenres.map(g => g.toLowerCase());
+    let adjustment = 0;
+
+    if (genres.some(g => liked.includes(g))) {
+      adjustment += LIKED_GENRE_BOOST;
+    }
+    if (genres.some(g => disliked.includes(g))) {
+      adjustment -= DISLIKED_GENRE_PENALTY;
+    }
+
+    const range = preferences.preferredYearRange;
+    if (range && (movie.year < range.min || movie.year > range.max)) {
+      adjustment -= OUT_OF_YEAR_RANGE_PENALTY;
+    }
+
+    return adjustment;
+  }
+
+  // Re-score and re-sort a recommendation list
+  static apply(recommendations: Recommendation[], preferences?: MoviePreferences): Recommendation[] {
+    if (!preferences) return recommendations;
+
+    return recommendations
+      .map(rec => {
+        const adjustment = this.adjustment(rec.movie, preferences);
+        if (adjustment === 0) return rec;
+
+        return {
+          ...rec,
+          score: Math.max(0, rec.score + adjustment),
+          explanation: ExplanationBuilder.addSignal(rec.explanation, { source: 'preferences', weight: 1, score: adjustment }),
+        };
+      })
+      .sort((a, b) => b.score - a.score);
+  }
+
+  // Cold start: rank candidates by stated preferences and external rating alone
+  static rankByPreferences(
+    candidates: Movie[],
+    preferences: MoviePreferences,
+    limit: number
+  ): Recommendation[] {
+    const liked = preferences.likedGenres.map(g => g.toLowerCase());
+
+    return candidates
+      .map(movie => {
+        const matchedGenres = movie.genre.filter(g => liked.includes(g.toLowerCase()));
+        const popularity = ((movie.rating || 5) / 10) * 0.5;
+        const adjustment = this.adjustment(movie, preferences);
+        return {
+          movie,
+          score: Math.max(0, popularity + adjustment),
+          reason: matchedGenres.length > 0
+            ? `Matches your favourite genre${matchedGenres.length > 1 ? 's' : ''}: ${matchedGenres.join(', ')}`
+            : 'Highly rated movie within your preferences',
+          explanation: ExplanationBuilder.addSignal(
+            ExplanationBuilder.create('preferences', 'popularity', popularity, { matchedGenres }),
+            { source: 'preferences', weight: 1, score: adjustment }
+          ),
+        };
+      })
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  static hasPreferences(preferences?: MoviePreferences): preferences is MoviePreferences {
+    return Boolean(
+      preferences && (
+        preferences.likedGenres.length > 0 ||
+        preferences.dislikedGenres.length > 0 ||
+        preferences.preferredYearRange
+      )
+    );
+  }
+}
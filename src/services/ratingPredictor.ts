@@ -0,0 +1,115 @@
+import { FactorModel, LatentFactors, Movie, MovieScore, Rating, RatingPrediction } from '../types';
+import { db } from './database';
+import { MatrixFactorizationService } from './matrixFactorizationService';
+import { PopularityService } from './popularityService';
+
+const DEFAULT_BASELINE = 3.5; // Movies nobody has rated and with no external rating
+const BIAS_DAMPING = 3; // Pulls biases computed from few ratings towards zero
+const DIRECTOR_SUPPORT_WEIGHT = 3; // A rated film by the same director counts as three genre matches
+const MF_WEIGHT = 0.6; // Share of the prediction taken from the factor model when it knows the movie
+const CONFIDENCE_SCALE = 8; // Supporting ratings needed for ~63% confidence
+
+interface Deviation {
+  sum: number;
+  count: number;
+}
+
+// Everything needed to predict one user's ratings, built once per request
+export interface TasteProfile {
+  userId: string;
+  ratingCount: number;
+  userBias: number;
+  genres: Map<string, Deviation>;
+  directors: Map<string, Deviation>;
+  scores: Map<string, MovieScore>;
+  model: FactorModel | null;
+  factors: LatentFactors | null;
+}
+
+export class RatingPredictor {
+  // Predictions for one user over a few movies, e.g. a page of search results
+  static async predictForUser(userId: string, movies: Movie[]): Promise<Map<string, RatingPrediction>> {
+    const userRatings = await db.getUserRatings(userId);
+    const ratedMovies = await db.getMoviesByIds(userRatings.map(r => r.movieId));
+    const profile = await this.profile(userId, userRatings, new Map(ratedMovies.map(movie => [movie.id, movie])));
+    return new Map(movies.map(movie => [movie.id, this.predict(profile, movie)]));
+  }
+
+  static async profile(
+    userId: string,
+    userRatings: Rating[],
+    moviesById: Map<string, Movie>
+  ): Promise<TasteProfile> {
+    const scores = await PopularityService.getScores();
+    const model = await MatrixFactorizationService.getModel();
+    const factors = model ? MatrixFactorizationService.getUserFactors(model, userId, userRatings) : null;
+
+    const rated = userRatings
+      .map(rating => ({ rating, movie: moviesById.get(rating.movieId) }))
+      .filter((item): item is { rating: Rating; movie: Movie } => Boolean(item.movie));
+
+    // How much this user rates above or below what a movie usually gets...
+    const userBias = rated.reduce(
+      (sum, { rating, movie }) => sum + rating.rating - this.baseline(movie, scores),
+      0
+    ) / (rated.length + BIAS_DAMPING);
+
+    // ...and how that shifts per genre and director
+    const genres = new Map<string, Deviation>();
+    const directors = new Map<string, Deviation>();
+    const add = (map: Map<string, Deviation>, key: string, residual: number): void => {
+      const current = map.get(key) || { sum: 0, count: 0 };
+      map.set(key, { sum: current.sum + residual, count: current.count + 1 });
+    };
+
+    rated.forEach(({ rating, movie }) => {
+      const residual = rating.rating - this.baseline(movie, scores) - userBias;
+      movie.genre.forEach(g => add(genres, g.toLowerCase(), residual));
+      if (movie.director) add(directors, movie.director.toLowerCase(), residual);
+    });
+
+    return { userId, ratingCount: rated.length, userBias, genres, directors, scores, model, factors };
+  }
+
+  static predict(profile: TasteProfile, movie: Movie): RatingPrediction {
+    const genreDeviations = movie.genre
+      .map(g => profile.genres.get(g.toLowerCase()))
+      .filter((d): d is Deviation => Boolean(d));
+    const genreAdjustment = genreDeviations.length > 0
+      ? genreDeviations.reduce((sum, d) => sum + d.sum / (d.count + BIAS_DAMPING), 0) / genreDeviations.length
+      : 0;
+    const director = movie.director ? profile.directors.get(movie.director.toLowerCase()) : undefined;
+    const directorAdjustment = director ? director.sum / (director.count + BIAS_DAMPING) : 0;
+
+    let rating = this.baseline(movie, profile.scores) + profile.userBias + genreAdjustment + directorAdjustment;
+    let support = genreDeviations.reduce((sum, d) => sum + d.count, 0) / Math.max(1, movie.genre.length)
+      + (director ? director.count * DIRECTOR_SUPPORT_WEIGHT : 0);
+
+    const mfRating = profile.model && profile.factors
+      ? MatrixFactorizationService.predict(profile.model, profile.factors, movie.id)
+      : null;
+    if (mfRating !== null) {
+      rating = MF_WEIGHT * mfRating + (1 - MF_WEIGHT) * rating;
+      support += profile.ratingCount;
+    }
+
+    return {
+      movieId: movie.id,
+      rating: this.round(Math.max(1, Math.min(5, rating))),
+      confidence: this.round(1 - Math.exp(-support / CONFIDENCE_SCALE)),
+    };
+  }
+
+  // What an average user would give the movie: our Bayesian average when it has
+  // ratings here, otherwise the external 0-10 rating on the 1-5 scale.
+  private static baseline(movie: Movie, scores: Map<string, MovieScore>): number {
+    const score = scores.get(movie.id);
+    if (score && score.ratingCount > 0) return score.bayesianRating;
+    if (movie.rating) return Math.max(1, Math.min(5, movie.rating / 2));
+    return DEFAULT_BASELINE;
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,137 @@
+import { Movie, MoodProfile } from '../types';
+
+// Default mood table; override or extend with a JSON object in RECOMMENDATION_MOODS,
+// e.g. {"cozy": {"genres": ["animation", "family"], "keywords": ["christmas"]}}
+const DEFAULT_MOODS: Record<string, MoodProfile> = {
+  light: {
+    genres: ['comedy', 'animation', 'family', 'musical'],
+    keywords: ['funny', 'heartwarming', 'friendship', 'charming', 'hilarious'],
+  },
+  romantic: {
+    genres: ['romance'],
+    keywords: ['love', 'relationship', 'wedding', 'falls for'],
+  },
+  intense: {
+    genres: ['action', 'thriller', 'crime', 'war'],
+    keywords: ['chase', 'survival', 'revenge', 'race against time', 'hostage'],
+  },
+  scary: {
+    genres: ['horror'],
+    keywords: ['haunted', 'terror', 'killer', 'nightmare', 'demon'],
+  },
+  thoughtful: {
+    genres: ['drama', 'documentary', 'history'],
+    keywords: ['grief', 'identity', 'memory', 'justice', 'redemption'],
+  },
+  adventurous: {
+    genres: ['adventure', 'fantasy', 'sci-fi', 'science fiction'],
+    keywords: ['quest', 'journey', 'explore', 'treasure', 'space'],
+  },
+};
+
+const loadMoods = (): Record<string, MoodProfile> => {
+  if (!process.env.RECOMMENDATION_MOODS) {
+    return DEFAULT_MOODS;
+  }
+
+  try {
+    return { ...DEFAULT_MOODS, ...JSON.parse(process.env.RECOMMENDATION_MOODS) };
+  } catch (error) {
+    console.error('Invalid RECOMMENDATION_MOODS, using defaults:', error);
+    return DEFAULT_MOODS;
+  }
+};
+
+const MOODS = loadMoods();
+
+// Named eras; decades ("1990s", "90s") are parsed
+const NAMED_ERAS: Record<string, () => { minYear?: number; maxYear?: number }> = {
+  classic: () => ({ maxYear: 1969 }),
+  modern: () => ({ minYear: 2000 }),
+  recent: () => ({ minYear: new Date().getFullYear() - 5 }),
+};
+
+const languageNames = new Intl.DisplayNames(['en'], { type: 'language' });
+
+export class RecommendationContext {
+  static getMoods(): Record<string, MoodProfile> {
+    return MOODS;
+  }
+
+  static getMood(name: string): MoodProfile | undefined {
+    return MOODS[name.toLowerCase()];
+  }
+
+  // A movie fits a mood through any of its genres or a keyword in its description
+  static matchesMood(movie: Movie, mood: MoodProfile): boolean {
+    const moodGenres = mood.genres.map(g => g.toLowerCase());
+    if (movie.genre.some(g => moodGenres.includes(g.toLowerCase()))) return true;
+
+    const description = (movie.description || '').toLowerCase();
+    return mood.keywords.some(keyword => description.includes(keyword.toLowerCase()));
+  }
+
+  // "1990s" and "90s" are the same decade; two-digit decades before 30 are 2000s
+  static eraRange(era: string): { minYear?: number; maxYear?: number } | null {
+    const name = era.toLowerCase();
+    if (NAMED_ERAS[name]) return NAMED_ERAS[name]();
+
+    const decade = name.match(/^(\d{2}|\d{4})s$/);
+    if (!decade) return null;
+
+    let start = Number(decade[1]);
+    if (decade[1].length === 2) start += start < 30 ? 2000 : 1900;
+    if (start % 10 !== 0) return null;
+    return { minYear: start, maxYear: start + 9 };
+  }
+
+  // Languages are stored by English name ("French"); ISO 639-1 codes are accepted too
+  static matchesLanguage(movie: Movie, languages: string[]): boolean {
+    if (!movie.language) return false;
+    const movieLanguage = movie.language.toLowerCase();
+    return languages.some(language => {
+      const name = language.length === 2 ? this.languageName(language) : language;
+      return movieLanguage === name.toLowerCase();
+    });
+  }
+
+  // Runtime for a movie that has none stored: the median runtime of catalog movies
+  // sharing its first genre, else of the whole catalog. Undefined with no runtimes at all.
+  static runtimeEstimator(allMovies: Movie[]): (movie: Movie) => number | undefined {
+    const byGenre = new Map<string, number[]>();
+    const all: number[] = [];
+    allMovies.forEach(movie => {
+      if (!movie.runtime) return;
+      const runtime = movie.runtime;
+      all.push(runtime);
+      movie.genre.forEach(g => {
+        const key = g.toLowerCase();
+        if (!byGenre.has(key)) byGenre.set(key, []);
+        byGenre.get(key)?.push(runtime);
+      });
+    });
+
+    const overall = this.median(all);
+    const genreMedians = new Map(Array.from(byGenre.entries()).map(([genre, runtimes]) => [genre, this.median(runtimes)]));
+    return (movie: Movie) => {
+      if (movie.runtime) return movie.runtime;
+      const genre = movie.genre[0]?.toLowerCase();
+      return (genre && genreMedians.get(genre)) || overall;
+    };
+  }
+
+  private static languageName(code: string): string {
+    try {
+      return languageNames.of(code.toLowerCase()) || code;
+    } catch (error) {
+      return code;
+    }
+  }
+
+  private static median(values: number[]): number | undefined {
+    if (values.length === 0) return undefined;
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+  }
+}
@@ -1,38 +1,58 @@
-import { Movie, User, Rating, Recommendation } from '../types';
-import { db } from './database';
+import { Movie, Rating, Recommendation, RecommendationFilters, UserNeighbour } from '../types';
+import { CandidateFilter } from './candidateFilter';
+import { MatrixFactorizationService } from './matrixFactorizationService';
+import { PreferenceScorer } from './preferenceScorer';
+import { ExplanationBuilder } from './explanationBuilder';
+import { TextSimilarityService } from './textSimilarityService';
+import { PopularityService } from './popularityService';
+import { NegativeProfile, DislikedMovie } from './negativeProfile';
+import { UserSimilarityService } from './userSimilarityService';
+import { TimeDecay } from './timeDecay';
+import { ImplicitFeedback } from './implicitFeedback';
+import { RecommendationSource, liveSource } from './recommendationSource';
+
+// Share of the content-based score that comes from description/cast/director text similarity
+const TEXT_SIMILARITY_WEIGHT = Number(process.env.TEXT_SIMILARITY_WEIGHT || 0.3);
 
 export class RecommendationEngine {
   // Collaborative Filtering - User-based recommendations
   static async generateCollaborativeRecommendations(
     targetUserId: string,
     allMovies: Movie[],
-    limit = 10
+    limit = 10,
+    filters: RecommendationFilters = {},
+    source: RecommendationSource = liveSource()
   ): Promise<Recommendation[]> {
     try {
-      const allRatings = await db.getAllRatings();
-      const allUsers = await db.getAllUsers();
-      
-      const targetUserRatings = allRatings.filter(r => r.userId === targetUserId);
+      const targetUserRatings = await source.data.getUserRatings(targetUserId);
+      const candidates = await CandidateFilter.forUser(targetUserId, allMovies, targetUserRatings, filters, source);
       if (targetUserRatings.length === 0) {
-        return this.getPopularMovies(allMovies, limit);
+        return this.getPopularMovies(candidates, limit, source);
       }
 
-      // Find similar users based on rating correlation
-      const similarUsers = this.findSimilarUsers(targetUserId, allRatings, allUsers);
+      // Stored top-K neighbours; only their ratings are loaded
+      const neighbours = await UserSimilarityService.getNeighbours(targetUserId, source);
+      const neighbourIds = neighbours.map(n => n.neighbourId);
+      const neighbourRatings = await source.data.getRatingsForUsers(neighbourIds);
+      // Their watchlist changes, views and search clicks, weighted by IMPLICIT_WEIGHTS
+      const neighbourSignals = await ImplicitFeedback.forUsers(neighbourIds, neighbourRatings, source);
+      const disliked = NegativeProfile.build(targetUserRatings, new Map(allMovies.map(movie => [movie.id, movie])));
       
       // Get movie recommendations from similar users
       const recommendations = this.getRecommendationsFromSimilarUsers(
-        targetUserId,
-        similarUsers,
-        allRatings,
-        allMovies,
-        limit
+        neighbours,
+        neighbourRatings,
+        neighbourSignals,
+        candidates,
+        limit,
+        disliked
       );
 
       return recommendations;
     } catch (error) {
       console.error('Collaborative filtering error:', error);
-      return this.getPopularMovies(allMovies, limit);
+      const candidates = await CandidateFilter.forFallback(targetUserId, allMovies, filters, source);
+      return this.getPopularMovies(candidates, limit, source);
     }
   }
 
@@ -40,31 +60,96 @@ export class RecommendationEngine {
   static async generateContentBasedRecommendations(
     targetUserId: string,
     allMovies: Movie[],
-    limit = 10
+    limit = 10,
+    filters: RecommendationFilters = {},
+    source: RecommendationSource = liveSource()
   ): Promise<Recommendation[]> {
     try {
-      const userRatings = await db.getUserRatings(targetUserId);
+      const userRatings = await source.data.getUserRatings(targetUserId);
+      const moviesById = new Map(allMovies.map(movie => [movie.id, movie]));
       const likedMovies: Movie[] = [];
+      const likedRatings = new Map<string, number>();
+      // Recent ratings shape the profile more than old ones
+      const likedWeights = new Map<string, number>();
       
-      for (const rating of userRatings.filter(r => r.liked && r.rating >= 4)) {
-        const movie = await db.getMovieById(rating.movieId);
-        if (movie) likedMovies.push(movie);
+      for (const rating of TimeDecay.tasteRatings(userRatings, filters.recentTaste).filter(r => r.liked && r.rating >= 4)) {
+        const movie = moviesById.get(rating.movieId);
+        if (movie) {
+          likedMovies.push(movie);
+          likedRatings.set(movie.id, rating.rating);
+          likedWeights.set(movie.id, TimeDecay.weight(rating, source.now));
+        }
       }
 
+      // Movies saved, viewed or clicked but not rated join the profile, weighted by their implicit signal
+      (await ImplicitFeedback.forUser(targetUserId, userRatings, source)).forEach((strength, movieId) => {
+        const movie = moviesById.get(movieId);
+        if (movie && strength > 0) {
+          likedMovies.push(movie);
+          likedWeights.set(movieId, strength);
+        }
+      });
+
+      const candidates = await CandidateFilter.forUser(targetUserId, allMovies, userRatings, filters, source);
+      const preferences = (await source.data.getUserById(targetUserId))?.preferences;
+      const disliked = NegativeProfile.build(userRatings, moviesById);
       if (likedMovies.length === 0) {
-        return this.getPopularMovies(allMovies, limit);
+        // Cold start: stated preferences and dislikes are all we know about the user
+        return NegativeProfile.apply(
+          PreferenceScorer.hasPreferences(preferences)
+            ? PreferenceScorer.rankByPreferences(candidates, preferences, limit)
+            : await this.getPopularMovies(candidates, limit, source),
+          disliked
+        );
       }
 
+      // Text profile of the liked movies; without indexed vectors only attributes are compared
+      const textIndex = await TextSimilarityService.getIndex(source);
+      const textProfile = TextSimilarityService.profile(textIndex, likedMovies.map(m => m.id), likedWeights);
+      const textWeight = textProfile ? TEXT_SIMILARITY_WEIGHT : 0;
+
       // Calculate content similarity scores
-      const recommendations = allMovies
-        .filter(movie => !userRatings.some(r => r.movieId === movie.id))
+      const recommendations = candidates
         .map(movie => {
-          const similarity = this.calculateContentSimilarity(movie, likedMovies);
-          return {
+          // A candidate the user only interacted with is not compared with itself, by
+          // attributes or by text
+          const seeds = likedMovies.filter(liked => liked.id !== movie.id);
+          const attributeSimilarity = this.calculateContentSimilarity(movie, seeds, likedWeights);
+          const candidateProfile = textProfile && seeds.length < likedMovies.length
+            ? TextSimilarityService.profile(textIndex, seeds.map(m => m.id), likedWeights)
+            : textProfile;
+          const textSimilarity = candidateProfile
+            ? TextSimilarityService.similarity(textIndex, movie.id, candidateProfile)
+            : 0;
+          const similarity = (1 - textWeight) * attributeSimilarity + textWeight * textSimilarity;
+          const adjustment = PreferenceScorer.adjustment(movie, preferences);
+          const seedMovies = seeds
+            .map(liked => ({ liked, similarity: this.calculateMovieSimilarity(movie, liked) }))
+            .filter(item => item.similarity > 0)
+            .sort((a, b) => b.similarity - a.similarity)
+            .slice(0, 3)
+            .map(({ liked }) => ExplanationBuilder.seed(liked, likedRatings.get(liked.id)));
+          let explanation = ExplanationBuilder.reweight(
+            ExplanationBuilder.create('content', 'content', attributeSimilarity, {
+              seedMovies,
+              matchedGenres: ExplanationBuilder.matchedGenres(movie, seeds),
+              matchedDirector: ExplanationBuilder.matchedDirector(movie, seeds),
+            }),
+            1 - textWeight
+          );
+          if (textWeight > 0) {
+            explanation = ExplanationBuilder.addSignal(explanation, { source: 'text', weight: textWeight, score: textSimilarity });
+          }
+          if (adjustment !== 0) {
+            explanation = ExplanationBuilder.addSignal(explanation, { source: 'preferences', weight: 1, score: adjustment });
+          }
+
+          return NegativeProfile.penalize({
             movie,
-            score: similarity,
-            reason: this.generateContentReason(movie, likedMovies),
-          };
+            score: Math.max(0, similarity + adjustment),
+            reason: this.generateContentReason(movie, seeds),
+            explanation,
+          }, disliked);
         })
         .sort((a, b) => b.score - a.score)
         .slice(0, limit);
@@ -72,197 +157,338 @@ export class RecommendationEngine {
       return recommendations;
     } catch (error) {
       console.error('Content-based filtering error:', error);
-      return this.getPopularMovies(allMovies, limit);
+      const candidates = await CandidateFilter.forFallback(targetUserId, allMovies, filters, source);
+      return this.getPopularMovies(candidates, limit, source);
     }
   }
 
-  // Hybrid approach combining collaborative and content-based
-  static async generateHybridRecommendations(
+  // Item-based collaborative filtering using the precomputed similarity table
+  static async generateItemBasedRecommendations(
     targetUserId: string,
     allMovies: Movie[],
-    limit = 10
+    limit = 10,
+    filters: RecommendationFilters = {},
+    source: RecommendationSource = liveSource()
   ): Promise<Recommendation[]> {
     try {
-      const collaborativeRecs = await this.generateCollaborativeRecommendations(
-        targetUserId, 
-        allMovies, 
-        Math.ceil(limit * 0.6)
-      );
-      
-      const contentBasedRecs = await this.generateContentBasedRecommendations(
-        targetUserId, 
-        allMovies, 
-        Math.ceil(limit * 0.4)
-      );
+      const userRatings = await source.data.getUserRatings(targetUserId);
+      const candidates = await CandidateFilter.forUser(targetUserId, allMovies, userRatings, filters, source);
+      if (userRatings.length === 0) {
+        return this.getPopularMovies(candidates, limit, source);
+      }
 
-      // Combine and deduplicate
-      const combinedRecs = new Map<string, Recommendation>();
-      
-      collaborativeRecs.forEach(rec => {
-        combinedRecs.set(rec.movie.id, {
-          ...rec,
-          score: rec.score * 0.6, // Weight collaborative filtering
-          reason: `${rec.reason} (collaborative filtering)`,
+      const userMean = userRatings.reduce((sum, r) => sum + r.rating, 0) / userRatings.length;
+      const ratingsByMovie = new Map(userRatings.map(r => [r.movieId, r]));
+      const candidatesById = new Map(candidates.map(movie => [movie.id, movie]));
+      const similarities = await source.data.getMovieSimilarities(userRatings.map(r => r.movieId));
+
+      // Predict a rating for each candidate from the user's ratings of its neighbours
+      const predictions = new Map<string, {
+        weighted: number;
+        weights: number;
+        contributions: Array<{ movieId: string; contribution: number }>;
+      }>();
+
+      similarities.forEach(similarity => {
+        const rating = ratingsByMovie.get(similarity.movieId);
+        if (!rating || !candidatesById.has(similarity.similarMovieId)) return;
+
+        const contribution = similarity.score * (rating.rating - userMean);
+        const current = predictions.get(similarity.similarMovieId) || {
+          weighted: 0,
+          weights: 0,
+          contributions: [],
+        };
+
+        current.weighted += contribution;
+        current.weights += Math.abs(similarity.score);
+        current.contributions.push({ movieId: similarity.movieId, contribution });
+        predictions.set(similarity.similarMovieId, current);
+      });
+
+      const moviesById = new Map(allMovies.map(movie => [movie.id, movie]));
+      const recommendations: Recommendation[] = [];
+
+      predictions.forEach((prediction, movieId) => {
+        const movie = candidatesById.get(movieId);
+        if (!movie || prediction.weights === 0) return;
+
+        const predictedRating = Math.max(1, Math.min(5, userMean + prediction.weighted / prediction.weights));
+        // Rated neighbours that pushed the prediction up, strongest first
+        const seeds = prediction.contributions
+          .filter(c => c.contribution > 0)
+          .sort((a, b) => b.contribution - a.contribution)
+          .map(c => moviesById.get(c.movieId))
+          .filter((seed): seed is Movie => Boolean(seed))
+          .slice(0, 3);
+        const seedRating = seeds.length > 0 ? ratingsByMovie.get(seeds[0].id) : undefined;
+
+        recommendations.push({
+          movie,
+          score: predictedRating / 5,
+          reason: seedRating
+            ? `Similar to ${seeds[0].title}, which you rated ${seedRating.rating}/5`
+            : 'Similar to movies you have rated',
+          explanation: ExplanationBuilder.create('item', 'item', predictedRating / 5, {
+            seedMovies: seeds.map(seed => ExplanationBuilder.seed(seed, ratingsByMovie.get(seed.id)?.rating)),
+            matchedGenres: ExplanationBuilder.matchedGenres(movie, seeds),
+            matchedDirector: ExplanationBuilder.matchedDirector(movie, seeds),
+          }),
         });
       });
 
-      contentBasedRecs.forEach(rec => {
-        const existing = combinedRecs.get(rec.movie.id);
-        if (existing) {
-          // Boost score if recommended by both methods
-          existing.score = (existing.score + rec.score * 0.4) / 1.4;
-          existing.reason = `${existing.reason} + content similarity`;
-        } else {
-          combinedRecs.set(rec.movie.id, {
-            ...rec,
-            score: rec.score * 0.4, // Weight content-based filtering
-            reason: `${rec.reason} (content-based)`,
-          });
-        }
+      return recommendations
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+    } catch (error) {
+      console.error('Item-based filtering error:', error);
+      const candidates = await CandidateFilter.forFallback(targetUserId, allMovies, filters, source);
+      return this.getPopularMovies(candidates, limit, source);
+    }
+  }
+
+  // Latent-factor recommendations from the offline-trained matrix factorization model
+  static async generateMatrixFactorizationRecommendations(
+    targetUserId: string,
+    allMovies: Movie[],
+    limit = 10,
+    filters: RecommendationFilters = {},
+    source: RecommendationSource = liveSource()
+  ): Promise<Recommendation[]> {
+    try {
+      const userRatings = await source.data.getUserRatings(targetUserId);
+      const candidates = await CandidateFilter.forUser(targetUserId, allMovies, userRatings, filters, source);
+
+      const model = await MatrixFactorizationService.getModel(source);
+      const userFactors = model
+        ? MatrixFactorizationService.getUserFactors(model, targetUserId, userRatings)
+        : null;
+      if (!model || !userFactors) {
+        return this.getPopularMovies(candidates, limit, source);
+      }
+
+      const recommendations: Recommendation[] = [];
+      candidates.forEach(movie => {
+        const predictedRating = MatrixFactorizationService.predict(model, userFactors, movie.id);
+        if (predictedRating === null) return;
+
+        recommendations.push({
+          movie,
+          score: predictedRating / 5,
+          reason: `Predicted ${predictedRating.toFixed(1)}/5 from your rating patterns`,
+          explanation: ExplanationBuilder.create('mf', 'mf', predictedRating / 5),
+        });
       });
 
-      return Array.from(combinedRecs.values())
+      return recommendations
         .sort((a, b) => b.score - a.score)
         .slice(0, limit);
     } catch (error) {
-      console.error('Hybrid recommendation error:', error);
-      return this.getPopularMovies(allMovies, limit);
+      console.error('Matrix factorization error:', error);
+      const candidates = await CandidateFilter.forFallback(targetUserId, allMovies, filters, source);
+      return this.getPopularMovies(candidates, limit, source);
     }
   }
 
-  // Calculate similarity between users using Pearson correlation
-  private static calculateUserSimilarity(
-    user1Ratings: Rating[],
-    user2Ratings: Rating[]
-  ): number {
-    const commonMovies = user1Ratings.filter(r1 =>
-      user2Ratings.some(r2 => r2.movieId === r1.movieId)
-    );
+  // Nearest neighbours of the user's liked movies in the embedding space
+  static async generateEmbeddingRecommendations(
+    targetUserId: string,
+    allMovies: Movie[],
+    limit = 10,
+    filters: RecommendationFilters = {},
+    source: RecommendationSource = liveSource()
+  ): Promise<Recommendation[]> {
+    try {
+      const userRatings = await source.data.getUserRatings(targetUserId);
+      const candidates = await CandidateFilter.forUser(targetUserId, allMovies, userRatings, filters, source);
+      const preferences = (await source.data.getUserById(targetUserId))?.preferences;
+      const likedRatings = TimeDecay.tasteRatings(userRatings, filters.recentTaste).filter(r => r.liked && r.rating >= 4);
+
+      const index = await source.embeddings.getIndex();
+      // 5-star movies pull the profile twice as hard as 4-star ones, recent ones harder than old ones
+      const profile = source.embeddings.profile(
+        index,
+        likedRatings.map(r => ({ movieId: r.movieId, weight: (r.rating - 3) * TimeDecay.weight(r, source.now) }))
+      );
+      if (!profile) {
+        return PreferenceScorer.hasPreferences(preferences)
+          ? PreferenceScorer.rankByPreferences(candidates, preferences, limit)
+          : this.getPopularMovies(candidates, limit, source);
+      }
 
-    if (commonMovies.length < 2) return 0; // Need at least 2 common ratings
+      const moviesById = new Map(allMovies.map(movie => [movie.id, movie]));
+      const candidatesById = new Map(candidates.map(movie => [movie.id, movie]));
+      const matches = source.embeddings.nearest(index, profile, limit, new Set(candidatesById.keys()));
 
-    const user1CommonRatings = commonMovies.map(r => r.rating);
-    const user2CommonRatings = commonMovies.map(r1 => {
-      const r2 = user2Ratings.find(r2 => r2.movieId === r1.movieId);
-      return r2 ? r2.rating : 0;
-    });
+      const likedVectors = likedRatings
+        .map(rating => ({ rating, movie: moviesById.get(rating.movieId), vector: index.get(rating.movieId) }))
+        .filter((item): item is { rating: Rating; movie: Movie; vector: number[] } => Boolean(item.movie && item.vector));
 
-    // Calculate Pearson correlation coefficient
-    const n = user1CommonRatings.length;
-    const sum1 = user1CommonRatings.reduce((a, b) => a + b, 0);
-    const sum2 = user2CommonRatings.reduce((a, b) => a + b, 0);
-    const sum1Sq = user1CommonRatings.reduce((a, b) => a + b * b, 0);
-    const sum2Sq = user2CommonRatings.reduce((a, b) => a + b * b, 0);
-    const pSum = user1CommonRatings.reduce((acc, r1, i) => acc + r1 * user2CommonRatings[i], 0);
+      const recommendations: Recommendation[] = [];
+      matches.forEach(match => {
+        const movie = candidatesById.get(match.movieId);
+        const movieVector = index.get(match.movieId);
+        if (!movie || !movieVector) return;
 
-    const num = pSum - (sum1 * sum2 / n);
-    const den = Math.sqrt((sum1Sq - sum1 * sum1 / n) * (sum2Sq - sum2 * sum2 / n));
+        const seeds = likedVectors
+          .map(liked => ({ ...liked, similarity: source.embeddings.similarity(movieVector, liked.vector) }))
+          .sort((a, b) => b.similarity - a.similarity)
+          .slice(0, 3);
+        const seedMovies = seeds.map(seed => seed.movie);
+        const score = Math.max(0, match.score);
 
-    return den === 0 ? 0 : num / den;
-  }
+        recommendations.push({
+          movie,
+          score,
+          reason: seeds.length > 0
+            ? `Close in theme and tone to ${seeds[0].movie.title}`
+            : 'Close in theme and tone to movies you liked',
+          explanation: ExplanationBuilder.create('embedding', 'embedding', score, {
+            seedMovies: seeds.map(seed => ExplanationBuilder.seed(seed.movie, seed.rating.rating)),
+            matchedGenres: ExplanationBuilder.matchedGenres(movie, seedMovies),
+            matchedDirector: ExplanationBuilder.matchedDirector(movie, seedMovies),
+          }),
+        });
+      });
 
-  private static findSimilarUsers(
-    targetUserId: string,
-    allRatings: Rating[],
-    allUsers: User[]
-  ): Array<{ user: User; similarity: number }> {
-    const targetUserRatings = allRatings.filter(r => r.userId === targetUserId);
-    
-    return allUsers
-      .filter(user => user.id !== targetUserId)
-      .map(user => {
-        const userRatings = allRatings.filter(r => r.userId === user.id);
-        const similarity = this.calculateUserSimilarity(targetUserRatings, userRatings);
-        return { user, similarity };
-      })
-      .filter(item => item.similarity > 0.3) // Minimum similarity threshold
-      .sort((a, b) => b.similarity - a.similarity)
-      .slice(0, 10); // Top 10 similar users
+      return PreferenceScorer.apply(recommendations, preferences);
+    } catch (error) {
+      console.error('Embedding recommendation error:', error);
+      const candidates = await CandidateFilter.forFallback(targetUserId, allMovies, filters, source);
+      return this.getPopularMovies(candidates, limit, source);
+    }
   }
 
   private static getRecommendationsFromSimilarUsers(
-    targetUserId: string,
-    similarUsers: Array<{ user: User; similarity: number }>,
-    allRatings: Rating[],
-    allMovies: Movie[],
-    limit: number
+    neighbours: UserNeighbour[],
+    neighbourRatings: Rating[],
+    neighbourSignals: Map<string, Map<string, number>>,
+    candidates: Movie[],
+    limit: number,
+    disliked: DislikedMovie[] = []
   ): Recommendation[] {
-    const targetUserRatings = allRatings.filter(r => r.userId === targetUserId);
-    const watchedMovieIds = new Set(targetUserRatings.map(r => r.movieId));
-
-    const movieScores = new Map<string, { score: number; count: number }>();
+    const candidatesById = new Map(candidates.map(movie => [movie.id, movie]));
+    const ratingsByUser = new Map<string, Rating[]>();
+    neighbourRatings.forEach(rating => {
+      if (!candidatesById.has(rating.movieId)) return;
+      const userRatings = ratingsByUser.get(rating.userId) || [];
+      userRatings.push(rating);
+      ratingsByUser.set(rating.userId, userRatings);
+    });
 
-    similarUsers.forEach(({ user, similarity }) => {
-      const userRatings = allRatings.filter(r => 
-        r.userId === user.id && 
-        r.liked && 
-        r.rating >= 4 &&
-        !watchedMovieIds.has(r.movieId)
-      );
+    const movieScores = new Map<string, {
+      score: number; count: number; dislikeScore: number; dislikes: number;
+      implicitScore: number; implicitVotes: number; implicitUsers: number;
+    }>();
+    const entry = (movieId: string) => movieScores.get(movieId)
+      || { score: 0, count: 0, dislikeScore: 0, dislikes: 0, implicitScore: 0, implicitVotes: 0, implicitUsers: 0 };
+
+    neighbours.forEach(({ neighbourId, score: similarity }) => {
+      (ratingsByUser.get(neighbourId) || []).forEach(rating => {
+        const current = entry(rating.movieId);
+        if (rating.liked && rating.rating >= 4) {
+          current.score += rating.rating * similarity;
+          current.count++;
+        } else if (NegativeProfile.isDisliked(rating)) {
+          // Mirrors the positive scale: a 1-star rating counts against as much as a 5-star one counts for
+          current.dislikeScore += (6 - rating.rating) * similarity;
+          current.dislikes++;
+        }
+        movieScores.set(rating.movieId, current);
+      });
 
-      userRatings.forEach(rating => {
-        const current = movieScores.get(rating.movieId) || { score: 0, count: 0 };
-        movieScores.set(rating.movieId, {
-          score: current.score + (rating.rating * similarity),
-          count: current.count + 1,
-        });
+      neighbourSignals.get(neighbourId)?.forEach((strength, movieId) => {
+        if (!candidatesById.has(movieId)) return;
+        const current = entry(movieId);
+        // A signal of strength s is s of a vote: a 5-star like, or a 1-star dislike when negative
+        current.implicitScore += 5 * strength * similarity;
+        current.implicitVotes += Math.abs(strength);
+        if (strength > 0) current.implicitUsers++;
+        movieScores.set(movieId, current);
       });
     });
 
     const recommendations: Recommendation[] = [];
     
-    for (const [movieId, { score, count }] of movieScores) {
-      const movie = allMovies.find(m => m.id === movieId);
-      if (movie) {
+    for (const [movieId, { score, count, dislikeScore, dislikes, implicitScore, implicitVotes, implicitUsers }] of movieScores) {
+      const movie = candidatesById.get(movieId);
+      const votes = count + dislikes + implicitVotes;
+      const finalScore = (score - dislikeScore + implicitScore) / votes; // Average weighted score
+      if (movie && (count > 0 || implicitUsers > 0) && finalScore > 0) {
+        let explanation = ExplanationBuilder.create('collaborative', 'collaborative', score / votes, {
+          similarUsers: count,
+        });
+        if (implicitVotes > 0) {
+          explanation = ExplanationBuilder.addSignal(explanation, { source: 'implicit', weight: 1, score: implicitScore / votes });
+        }
+        if (dislikes > 0) {
+          explanation = ExplanationBuilder.addSignal(explanation, { source: 'dislikes', weight: 1, score: -dislikeScore / votes });
+        }
+
+        const reason = count > 0
+          ? `Recommended by ${count} similar user${count > 1 ? 's' : ''}`
+          : `Saved or viewed by ${implicitUsers} similar user${implicitUsers > 1 ? 's' : ''}`;
         recommendations.push({
           movie,
-          score: score / count, // Average weighted score
-          reason: `Recommended by ${count} similar user${count > 1 ? 's' : ''}`,
+          score: finalScore,
+          reason: reason + (dislikes > 0 ? ` (${dislikes} disliked it)` : ''),
+          explanation,
         });
       }
     }
 
-    return recommendations
+    return NegativeProfile.apply(recommendations, disliked)
       .sort((a, b) => b.score - a.score)
       .slice(0, limit);
   }
 
-  private static calculateContentSimilarity(movie: Movie, likedMovies: Movie[]): number {
+  // Weighted mean similarity to the liked movies (weight 1 each when none are given)
+  private static calculateContentSimilarity(
+    movie: Movie,
+    likedMovies: Movie[],
+    weights: Map<string, number> = new Map()
+  ): number {
     let totalSimilarity = 0;
-
+    let totalWeight = 0;
     likedMovies.forEach(likedMovie => {
-      let similarity = 0;
+      const weight = weights.get(likedMovie.id) ?? 1;
+      totalSimilarity += weight * this.calculateMovieSimilarity(movie, likedMovie);
+      totalWeight += weight;
+    });
 
-      // Genre similarity (weighted heavily)
-      const genreOverlap = movie.genre.filter(g => likedMovie.genre.includes(g)).length;
-      const genreUnion = new Set([...movie.genre, ...likedMovie.genre]).size;
-      similarity += (genreOverlap / genreUnion) * 0.5;
+    return totalWeight > 0 ? totalSimilarity / totalWeight : 0;
+  }
 
-      // Director similarity
-      if (movie.director && likedMovie.director && movie.director === likedMovie.director) {
-        similarity += 0.2;
-      }
+  private static calculateMovieSimilarity(movie: Movie, likedMovie: Movie): number {
+    let similarity = 0;
 
-      // Year proximity
-      const yearDiff = Math.abs(movie.year - likedMovie.year);
-      if (yearDiff <= 5) {
-        similarity += 0.15;
-      } else if (yearDiff <= 15) {
-        similarity += 0.1;
-      }
+    // Genre similarity (weighted heavily)
+    const genreOverlap = movie.genre.filter(g => likedMovie.genre.includes(g)).length;
+    const genreUnion = new Set([...movie.genre, ...likedMovie.genre]).size;
+    similarity += (genreOverlap / genreUnion) * 0.5;
 
-      // Rating similarity
-      if (movie.rating && likedMovie.rating) {
-        const ratingDiff = Math.abs(movie.rating - likedMovie.rating);
-        if (ratingDiff <= 1) {
-          similarity += 0.15;
-        }
-      }
+    // Director similarity
+    if (movie.director && likedMovie.director && movie.director === likedMovie.director) {
+      similarity += 0.2;
+    }
 
-      totalSimilarity += similarity;
-    });
+    // Year proximity
+    const yearDiff = Math.abs(movie.year - likedMovie.year);
+    if (yearDiff <= 5) {
+      similarity += 0.15;
+    } else if (yearDiff <= 15) {
+      similarity += 0.1;
+    }
+
+    // Rating similarity
+    if (movie.rating && likedMovie.rating) {
+      const ratingDiff = Math.abs(movie.rating - likedMovie.rating);
+      if (ratingDiff <= 1) {
+        similarity += 0.15;
+      }
+    }
 
-    return likedMovies.length > 0 ? totalSimilarity / likedMovies.length : 0;
+    return similarity;
   }
 
   private static generateContentReason(movie: Movie, likedMovies: Movie[]): string {
@@ -289,15 +515,11 @@ export class RecommendationEngine {
       : 'Similar to your preferences';
   }
 
-  private static getPopularMovies(allMovies: Movie[], limit: number): Recommendation[] {
-    return allMovies
-      .filter(movie => movie.rating && movie.rating >= 7)
-      .sort((a, b) => (b.rating || 0) - (a.rating || 0))
-      .slice(0, limit)
-      .map((movie, index) => ({
-        movie,
-        score: 0.8 - (index * 0.05),
-        reason: 'Popular highly-rated movie',
-      }));
+  private static getPopularMovies(
+    allMovies: Movie[],
+    limit: number,
+    source: RecommendationSource
+  ): Promise<Recommendation[]> {
+    return PopularityService.recommend(allMovies, limit, source);
   }
 }
\ No newline at end of file
@@ -0,0 +1,22 @@
+import { db, RecommendationDataSource } from './database';
+import { EmbeddingService, embeddingService } from './embeddingService';
+
+// What a recommender reads and the moment it recommends at. Requests use the live source;
+// the offline evaluation builds its own from the training split and cutoff, so it never
+// changes anything the API process shares.
+export interface RecommendationSource {
+  data: RecommendationDataSource;
+  now: Date; // rating ages and implicit-feedback windows are measured from here
+  embeddings: EmbeddingService;
+  remote: boolean; // false keeps the ai strategy on its local fallback
+}
+
+export const liveSource = (): RecommendationSource => ({
+  data: db,
+  now: new Date(),
+  embeddings: embeddingService,
+  remote: true,
+});
+
+// Cached indexes and models hold database data; other sources are read directly
+export const isLiveSource = (source: RecommendationSource): boolean => source.data === db;
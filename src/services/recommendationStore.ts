@@ -0,0 +1,156 @@
+import { Movie, StoredRecommendations } from '../types';
+import { db } from './database';
+import { CandidateFilter } from './candidateFilter';
+import { recommenderRegistry } from './recommenders';
+import { UserSimilarityService } from './userSimilarityService';
+
+// Algorithms precomputed for every user, comma-separated
+const PRECOMPUTED_ALGORITHMS = (process.env.PRECOMPUTED_ALGORITHMS || 'hybrid')
+  .split(',')
+  .map(algorithm => algorithm.trim())
+  .filter(Boolean);
+// Long enough for the largest `limit`; bigger diversity pools are computed live
+const STORE_SIZE = Number(process.env.RECOMMENDATION_STORE_SIZE || 50);
+// Lists older than this are recomputed live (and in the background for the next request)
+const MAX_AGE_MS = Number(process.env.RECOMMENDATION_MAX_AGE_HOURS || 24) * 60 * 60 * 1000;
+// Views and search clicks refresh a user's lists once this many have accumulated,
+// or after the delay following the first of them, whichever comes first
+const INTERACTION_REFRESH_THRESHOLD = Number(process.env.INTERACTION_REFRESH_THRESHOLD || 20);
+const INTERACTION_REFRESH_DELAY_MS = Number(process.env.INTERACTION_REFRESH_DELAY_MINUTES || 30) * 60 * 1000;
+
+export class RecommendationStore {
+  private static refreshing = new Set<string>();
+  private static queued = new Set<string>();
+  // When each user's ratings, preferences or activity last changed; their stored lists
+  // computed before that are bypassed until the background refresh has replaced them
+  private static changedAt = new Map<string, number>();
+  private static pendingInteractions = new Map<string, { count: number; timer: NodeJS.Timeout }>();
+
+  static isPrecomputed(algorithm: string): boolean {
+    return PRECOMPUTED_ALGORITHMS.includes(algorithm);
+  }
+
+  // The stored list when it is fresh and still long enough for `count` movies, else null.
+  // Missing and stale lists are refreshed in the background; lists computed before the
+  // user's latest change are skipped while that refresh runs.
+  static async get(userId: string, algorithm: string, count: number): Promise<StoredRecommendations | null> {
+    if (!this.isPrecomputed(algorithm)) return null;
+
+    const stored = await db.getStoredRecommendations(userId, algorithm);
+    const computedAt = stored ? new Date(stored.computedAt).getTime() : 0;
+    if (!stored || Date.now() - computedAt > MAX_AGE_MS) {
+      this.invalidate(userId);
+      return null;
+    }
+    if ((this.changedAt.get(userId) || 0) > computedAt) return null;
+
+    // Drop movies the user has rated, watched or hidden since the list was computed
+    const ratings = await db.getUserRatings(userId);
+    const feedback = await db.getUserFeedback(userId);
+    const watched = await db.getWatchedMovieIds(userId);
+    const allowed = new Set(
+      CandidateFilter.apply(stored.recommendations.map(rec => rec.movie), ratings, {}, feedback, watched)
+        .map(movie => movie.id)
+    );
+    const recommendations = stored.recommendations.filter(rec => allowed.has(rec.movie.id));
+
+    // A list shorter than STORE_SIZE already held every candidate; a full one that no
+    // longer covers `count` is recomputed live
+    if (recommendations.length < count && stored.recommendations.length >= STORE_SIZE) return null;
+
+    return { ...stored, recommendations: recommendations.slice(0, count) };
+  }
+
+  // Recompute and store every precomputed list of one user; returns the number of rows stored
+  static async refreshUser(userId: string, allMovies?: Movie[]): Promise<number> {
+    const startedAt = Date.now();
+    const movies = allMovies || (await db.getMovies()).movies;
+    let stored = 0;
+
+    for (const algorithm of PRECOMPUTED_ALGORITHMS) {
+      const recommender = recommenderRegistry.get(algorithm);
+      if (!recommender) {
+        console.warn(`PRECOMPUTED_ALGORITHMS lists unknown algorithm: ${algorithm}`);
+        continue;
+      }
+
+      const computedAt = new Date();
+      const recommendations = await recommender.recommend(userId, movies, STORE_SIZE, {});
+      await db.replaceStoredRecommendations(userId, algorithm, recommendations, computedAt);
+      stored += recommendations.length;
+    }
+
+    // Changes made while this refresh ran still need the follow-up one
+    if ((this.changedAt.get(userId) || 0) <= startedAt) this.changedAt.delete(userId);
+    return stored;
+  }
+
+  // Batch job: every user's lists, one user at a time; a failing user is logged and skipped
+  static async refreshAll(): Promise<{ users: number; recommendations: number }> {
+    const { movies } = await db.getMovies();
+    const users = await db.getAllUsers();
+    let recommendations = 0;
+
+    for (const user of users) {
+      try {
+        recommendations += await this.refreshUser(user.id, movies);
+      } catch (error) {
+        console.error(`Failed to precompute recommendations for user ${user.id}:`, error);
+      }
+    }
+    return { users: users.length, recommendations };
+  }
+
+  // Refresh one user's lists in the background, e.g. after they rate a movie.
+  // Calls made while a refresh is running trigger a single follow-up run.
+  static invalidate(userId: string): void {
+    if (PRECOMPUTED_ALGORITHMS.length === 0) return;
+    this.changedAt.set(userId, Date.now());
+    if (this.refreshing.has(userId)) {
+      this.queued.add(userId);
+      return;
+    }
+
+    this.refreshing.add(userId);
+    this.refreshUser(userId)
+      .catch(error => console.error(`Failed to refresh stored recommendations for user ${userId}:`, error))
+      .finally(() => {
+        this.refreshing.delete(userId);
+        if (this.queued.delete(userId)) this.invalidate(userId);
+      });
+  }
+
+  // New ratings change the user's neighbours first, and through them the stored lists
+  static onUserRating(userId: string): void {
+    if (PRECOMPUTED_ALGORITHMS.length > 0) this.changedAt.set(userId, Date.now());
+    UserSimilarityService.refreshUser(userId)
+      .catch(error => console.error(`Failed to update neighbours of user ${userId}:`, error))
+      .finally(() => this.invalidate(userId));
+  }
+
+  // Interactions are weak signals that arrive in bursts, so they are batched rather than
+  // each triggering a full recomputation; until then the stored list keeps being served
+  static onUserInteractions(userId: string, count: number): void {
+    if (PRECOMPUTED_ALGORITHMS.length === 0) return;
+    const pending = this.pendingInteractions.get(userId);
+    const total = (pending?.count || 0) + count;
+
+    if (total >= INTERACTION_REFRESH_THRESHOLD) {
+      if (pending) clearTimeout(pending.timer);
+      this.pendingInteractions.delete(userId);
+      this.invalidate(userId);
+      return;
+    }
+    if (pending) {
+      pending.count = total;
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      this.pendingInteractions.delete(userId);
+      this.invalidate(userId);
+    }, INTERACTION_REFRESH_DELAY_MS);
+    timer.unref();
+    this.pendingInteractions.set(userId, { count: total, timer });
+  }
+}
@@ -0,0 +1,30 @@
+import { Recommender } from '../types';
+
+// Strategies available to GET /api/recommendations and to hybrid blends, by name
+class RecommenderRegistry {
+  private recommenders = new Map<string, Recommender>();
+
+  // Registering a name again replaces the earlier strategy
+  register(recommender: Recommender): void {
+    this.recommenders.set(recommender.name, recommender);
+  }
+
+  get(name: string): Recommender | undefined {
+    return this.recommenders.get(name);
+  }
+
+  has(name: string): boolean {
+    return this.recommenders.has(name);
+  }
+
+  names(): string[] {
+    return Array.from(this.recommenders.keys());
+  }
+
+  list(): Recommender[] {
+    return Array.from(this.recommenders.values());
+  }
+}
+
+// Export singleton instance
+export const recommenderRegistry = new RecommenderRegistry();
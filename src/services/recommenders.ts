@@ -0,0 +1,72 @@
+import { Movie } from '../types';
+import { AIService } from './aiService';
+import { RecommendationEngine } from './recommendationEngine';
+import { MatrixFactorizationService } from './matrixFactorizationService';
+import { HybridRecommender } from './hybridRecommender';
+import { recommenderRegistry } from './recommenderRegistry';
+import { liveSource } from './recommendationSource';
+
+// Built-in strategies. Import the registry from this module so they are registered
+// before the first lookup; further strategies can be registered alongside them.
+
+recommenderRegistry.register({
+  name: 'collaborative',
+  label: 'collaborative filtering',
+  usesPreferences: false,
+  recommend: (userId, allMovies, limit, filters, source) =>
+    RecommendationEngine.generateCollaborativeRecommendations(userId, allMovies, limit, filters, source),
+});
+
+recommenderRegistry.register({
+  name: 'content',
+  label: 'content similarity',
+  usesPreferences: true,
+  recommend: (userId, allMovies, limit, filters, source) =>
+    RecommendationEngine.generateContentBasedRecommendations(userId, allMovies, limit, filters, source),
+});
+
+recommenderRegistry.register({
+  name: 'item',
+  label: 'similar movies',
+  usesPreferences: false,
+  recommend: (userId, allMovies, limit, filters, source) =>
+    RecommendationEngine.generateItemBasedRecommendations(userId, allMovies, limit, filters, source),
+});
+
+recommenderRegistry.register({
+  name: 'mf',
+  label: 'latent factors',
+  usesPreferences: false,
+  isAvailable: async source => Boolean(await MatrixFactorizationService.getModel(source)),
+  recommend: (userId, allMovies, limit, filters, source) =>
+    RecommendationEngine.generateMatrixFactorizationRecommendations(userId, allMovies, limit, filters, source),
+});
+
+recommenderRegistry.register({
+  name: 'embedding',
+  label: 'semantic similarity',
+  usesPreferences: true,
+  isAvailable: async (source = liveSource()) => (await source.embeddings.getIndex()).size > 0,
+  recommend: (userId, allMovies, limit, filters, source) =>
+    RecommendationEngine.generateEmbeddingRecommendations(userId, allMovies, limit, filters, source),
+});
+
+recommenderRegistry.register({
+  name: 'ai',
+  label: 'AI',
+  usesPreferences: true,
+  recommend: async (userId, allMovies, limit, filters, source = liveSource()) => {
+    const userRatings = await source.data.getUserRatings(userId);
+    const moviesById = new Map(allMovies.map(movie => [movie.id, movie]));
+    const likedMovies = userRatings
+      .filter(r => r.liked)
+      .map(r => moviesById.get(r.movieId))
+      .filter((movie): movie is Movie => Boolean(movie));
+    return AIService.generateRecommendations(userId, userRatings, allMovies, likedMovies, limit, filters, source);
+  },
+});
+
+// Blend of the strategies above, weighted by HYBRID_WEIGHTS
+recommenderRegistry.register(new HybridRecommender());
+
+export { recommenderRegistry };
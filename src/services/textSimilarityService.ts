@@ -0,0 +1,193 @@
+import { Movie, MovieTextVector } from '../types';
+import { db } from './database';
+import { RecommendationSource, liveSource, isLiveSource } from './recommendationSource';
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const DIRECTOR_BOOST = 2; // A shared director says more than a shared plot word
+const INDEX_RELOAD_INTERVAL = 10 * 60 * 1000; // Pick up vectors refreshed by other processes
+
+const STOP_WORDS = new Set([
+  'a', 'about', 'after', 'again', 'against', 'all', 'an', 'and', 'any', 'are', 'as', 'at',
+  'be', 'because', 'been', 'before', 'being', 'between', 'both', 'but', 'by', 'can', 'could',
+  'did', 'do', 'does', 'during', 'each', 'for', 'from', 'further', 'had', 'has', 'have', 'he',
+  'her', 'here', 'hers', 'him', 'himself', 'his', 'how', 'if', 'in', 'into', 'is', 'it', 'its',
+  'itself', 'just', 'me', 'more', 'most', 'must', 'my', 'no', 'nor', 'not', 'of', 'off', 'on',
+  'once', 'one', 'only', 'or', 'other', 'our', 'out', 'over', 'own', 'same', 'she', 'should',
+  'so', 'some', 'such', 'than', 'that', 'the', 'their', 'them', 'themselves', 'then', 'there',
+  'these', 'they', 'this', 'those', 'through', 'to', 'too', 'two', 'under', 'until', 'up',
+  'upon', 'very', 'was', 'we', 'were', 'what', 'when', 'where', 'which', 'while', 'who',
+  'whom', 'why', 'will', 'with', 'would', 'you', 'your', 'film', 'movie', 'story',
+]);
+
+const ACTOR_PREFIX = 'actor:';
+const DIRECTOR_PREFIX = 'director:';
+
+// BM25-weighted, L2-normalized term vectors keyed by movie ID
+export type TextIndex = Map<string, Map<string, number>>;
+
+export interface TextMatch {
+  movieId: string;
+  score: number; // cosine similarity, 0 to 1
+  keywords: string[]; // shared description terms, strongest first
+}
+
+export class TextSimilarityService {
+  private static index: TextIndex | null = null;
+  private static loadedAt = 0;
+
+  static tokenize(text: string): string[] {
+    return text
+      .toLowerCase()
+      .replace(/'s\b/g, '')
+      .split(/[^a-z0-9]+/)
+      .filter(token => token.length > 2 && !STOP_WORDS.has(token))
+      // Light plural folding so "heists" and "heist" count as one term
+      .map(token => (token.length > 4 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token));
+  }
+
+  // Raw term frequencies from the description, cast and director.
+  // People are kept as single terms so "Tom Hanks" never matches "Tom Cruise".
+  static termFrequencies(movie: Movie): Omit<MovieTextVector, 'updatedAt'> {
+    const terms: Record<string, number> = {};
+    const add = (term: string, count = 1): void => {
+      terms[term] = (terms[term] || 0) + count;
+    };
+
+    this.tokenize(movie.description || '').forEach(token => add(token));
+    (movie.actors || []).forEach(actor => add(ACTOR_PREFIX + this.slug(actor)));
+    if (movie.director) {
+      add(DIRECTOR_PREFIX + this.slug(movie.director), DIRECTOR_BOOST);
+    }
+
+    return {
+      movieId: movie.id,
+      terms,
+      length: Object.values(terms).reduce((sum, count) => sum + count, 0),
+    };
+  }
+
+  // Called after a movie is created or updated. Never fails the caller.
+  static async refreshMovie(movie: Movie): Promise<void> {
+    try {
+      await db.upsertMovieTextVector(this.termFrequencies(movie));
+      this.index = null;
+    } catch (error) {
+      console.error(`Failed to refresh text vector for movie ${movie.id}:`, error);
+    }
+  }
+
+  static async rebuild(movies: Movie[]): Promise<number> {
+    const vectors = movies.map(movie => this.termFrequencies(movie));
+    await db.replaceMovieTextVectors(vectors);
+    this.index = this.buildIndex(vectors);
+    this.loadedAt = Date.now();
+    return vectors.length;
+  }
+
+  static async getIndex(source: RecommendationSource = liveSource()): Promise<TextIndex> {
+    if (!isLiveSource(source)) return this.buildIndex(await source.data.getMovieTextVectors());
+    if (!this.index || Date.now() - this.loadedAt > INDEX_RELOAD_INTERVAL) {
+      this.index = this.buildIndex(await db.getMovieTextVectors());
+      this.loadedAt = Date.now();
+    }
+    return this.index;
+  }
+
+  // IDF depends on the whole catalog, so weights are computed when the index
+  // is loaded rather than stored with each movie.
+  static buildIndex(vectors: Array<Omit<MovieTextVector, 'updatedAt'>>): TextIndex {
+    const index: TextIndex = new Map();
+    if (vectors.length === 0) return index;
+
+    const documentFrequency = new Map<string, number>();
+    vectors.forEach(vector => {
+      Object.keys(vector.terms).forEach(term => {
+        documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+      });
+    });
+    const averageLength = vectors.reduce((sum, v) => sum + v.length, 0) / vectors.length || 1;
+
+    vectors.forEach(vector => {
+      const weights = new Map<string, number>();
+      const lengthNorm = 1 - BM25_B + BM25_B * (vector.length / averageLength);
+
+      Object.entries(vector.terms).forEach(([term, frequency]) => {
+        const df = documentFrequency.get(term) || 0;
+        const idf = Math.log(1 + (vectors.length - df + 0.5) / (df + 0.5));
+        weights.set(term, idf * (frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * lengthNorm));
+      });
+
+      index.set(vector.movieId, this.normalize(weights));
+    });
+
+    return index;
+  }
+
+  static findSimilar(index: TextIndex, movieId: string, limit = 10): TextMatch[] {
+    const source = index.get(movieId);
+    if (!source) return [];
+
+    const matches: TextMatch[] = [];
+    index.forEach((vector, otherId) => {
+      if (otherId === movieId) return;
+      const score = this.dot(source, vector);
+      if (score > 0) {
+        matches.push({ movieId: otherId, score, keywords: this.sharedKeywords(source, vector) });
+      }
+    });
+
+    return matches
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  // Centroid of the given movies' vectors, used as a text profile of a user's taste
+  static profile(
+    index: TextIndex,
+    movieIds: string[],
+    movieWeights: Map<string, number> = new Map()
+  ): Map<string, number> | null {
+    const centroid = new Map<string, number>();
+    movieIds.forEach(id => {
+      const movieWeight = movieWeights.get(id) ?? 1;
+      index.get(id)?.forEach((weight, term) => {
+        centroid.set(term, (centroid.get(term) || 0) + movieWeight * weight);
+      });
+    });
+    return centroid.size > 0 ? this.normalize(centroid) : null;
+  }
+
+  static similarity(index: TextIndex, movieId: string, profile: Map<string, number>): number {
+    const vector = index.get(movieId);
+    return vector ? this.dot(vector, profile) : 0;
+  }
+
+  private static sharedKeywords(a: Map<string, number>, b: Map<string, number>): string[] {
+    const contribution = (term: string): number => (a.get(term) || 0) * (b.get(term) || 0);
+
+    return Array.from(a.keys())
+      .filter(term => b.has(term) && !term.startsWith(ACTOR_PREFIX) && !term.startsWith(DIRECTOR_PREFIX))
+      .sort((x, y) => contribution(y) - contribution(x))
+      .slice(0, 5);
+  }
+
+  private static dot(a: Map<string, number>, b: Map<string, number>): number {
+    const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+    let sum = 0;
+    small.forEach((weight, term) => {
+      sum += weight * (large.get(term) || 0);
+    });
+    return sum;
+  }
+
+  private static normalize(vector: Map<string, number>): Map<string, number> {
+    const norm = Math.sqrt(Array.from(vector.values()).reduce((sum, w) => sum + w * w, 0));
+    if (norm === 0) return vector;
+    return new Map(Array.from(vector.entries()).map(([term, weight]) => [term, weight / norm]));
+  }
+
+  private static slug(name: string): string {
+    return name.trim().toLowerCase().replace(/\s+/g, '_');
+  }
+}
@@ -0,0 +1,39 @@
+import { Rating } from '../types';
+
+// A rating loses half its weight every RATING_HALF_LIFE_DAYS (0 disables decay)
+const RATING_HALF_LIFE_DAYS = Number(process.env.RATING_HALF_LIFE_DAYS || 365);
+// Ratings the "recent taste" mode builds the profile from
+const RECENT_TASTE_INTERACTIONS = Number(process.env.RECENT_TASTE_INTERACTIONS || 20);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Ratings, and anything else with the same timestamps (e.g. interaction events)
+type Dated = Pick<Rating, 'createdAt' | 'updatedAt'>;
+
+export class TimeDecay {
+  // Re-rating a movie makes it recent again
+  static ratedAt(rating: Dated): Date {
+    return new Date(rating.updatedAt || rating.createdAt);
+  }
+
+  // 1 for a rating made now, 0.5 after one half-life, and so on
+  static weight(rating: Dated, now = new Date()): number {
+    if (RATING_HALF_LIFE_DAYS <= 0) return 1;
+    const ageDays = Math.max(0, (now.getTime() - this.ratedAt(rating).getTime()) / DAY_MS);
+    return Math.pow(0.5, ageDays / RATING_HALF_LIFE_DAYS);
+  }
+
+  // The user's latest ratings, newest first
+  static recent(ratings: Rating[], count = RECENT_TASTE_INTERACTIONS): Rating[] {
+    return [...ratings]
+      .sort((a, b) => this.ratedAt(b).getTime() - this.ratedAt(a).getTime())
+      .slice(0, count);
+  }
+
+  // Ratings a taste profile is built from: everything, or in recent-taste mode only the
+  // latest ones (all of them again when none of the latest is a like)
+  static tasteRatings(ratings: Rating[], recentTaste = false): Rating[] {
+    if (!recentTaste) return ratings;
+    const recent = this.recent(ratings);
+    return recent.some(r => r.liked && r.rating >= 4) ? recent : ratings;
+  }
+}
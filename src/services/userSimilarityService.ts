@@ -0,0 +1,244 @@
+import { Rating, UserNeighbour, UserSimilarityMetric } from '../types';
+import { db } from './database';
+import { TimeDecay } from './timeDecay';
+import { RecommendationSource, liveSource, isLiveSource } from './recommendationSource';
+
+export const USER_SIMILARITY_METRICS: UserSimilarityMetric[] = ['pearson', 'cosine', 'jaccard'];
+
+const loadMetric = (): UserSimilarityMetric => {
+  const metric = process.env.USER_SIMILARITY_METRIC as UserSimilarityMetric | undefined;
+  if (!metric) {
+    return 'pearson';
+  }
+  if (!USER_SIMILARITY_METRICS.includes(metric)) {
+    console.error(`Invalid USER_SIMILARITY_METRIC "${metric}", using pearson`);
+    return 'pearson';
+  }
+  return metric;
+};
+
+const METRIC = loadMetric();
+const DEFAULT_NEIGHBOURS = Number(process.env.USER_NEIGHBOURS || 10); // Similar users kept per user
+const MIN_CO_RATINGS = 2; // Movies both users must have rated
+// Weaker neighbours add more noise than signal; the scales of the metrics differ
+const MIN_SIMILARITY: Record<UserSimilarityMetric, number> = {
+  pearson: 0.3,
+  cosine: 0.1,
+  jaccard: 0.1,
+};
+const INDEX_RELOAD_INTERVAL = 10 * 60 * 1000;
+
+interface UserVector {
+  ratings: Map<string, number>; // movieId -> stars
+  weights: Map<string, number>; // movieId -> time-decay weight of the rating
+  liked: Set<string>;
+  likedWeight: number; // Sum of the weights of the liked movies
+  norm: number; // Euclidean norm over all of the user's decayed ratings
+}
+
+// Rating vectors by user, plus the inverted index that finds the users sharing a movie
+export interface RatingIndex {
+  users: Map<string, UserVector>;
+  raters: Map<string, Set<string>>; // movieId -> users who rated it
+}
+
+export interface UserSimilarity {
+  score: number;
+  coRatings: number;
+}
+
+export class UserSimilarityService {
+  private static index: RatingIndex | null = null;
+  private static loadedAt = 0;
+
+  static getMetric(): UserSimilarityMetric {
+    return METRIC;
+  }
+
+  static buildIndex(ratings: Rating[], now = new Date()): RatingIndex {
+    const byUser = new Map<string, Rating[]>();
+    ratings.forEach(rating => {
+      const userRatings = byUser.get(rating.userId) || [];
+      userRatings.push(rating);
+      byUser.set(rating.userId, userRatings);
+    });
+
+    const index: RatingIndex = { users: new Map(), raters: new Map() };
+    byUser.forEach((userRatings, userId) => this.setUserRatings(index, userId, userRatings, now));
+    return index;
+  }
+
+  // Replace one user's vector, e.g. after they rated a movie
+  static setUserRatings(index: RatingIndex, userId: string, ratings: Rating[], now = new Date()): void {
+    index.users.get(userId)?.ratings.forEach((_, movieId) => index.raters.get(movieId)?.delete(userId));
+
+    const vector: UserVector = { ratings: new Map(), weights: new Map(), liked: new Set(), likedWeight: 0, norm: 0 };
+    let sumSquares = 0;
+    ratings.forEach(rating => {
+      const weight = TimeDecay.weight(rating, now);
+      vector.ratings.set(rating.movieId, rating.rating);
+      vector.weights.set(rating.movieId, weight);
+      sumSquares += (weight * rating.rating) ** 2;
+      if (rating.liked) {
+        vector.liked.add(rating.movieId);
+        vector.likedWeight += weight;
+      }
+      if (!index.raters.has(rating.movieId)) index.raters.set(rating.movieId, new Set());
+      index.raters.get(rating.movieId)?.add(userId);
+    });
+    vector.norm = Math.sqrt(sumSquares);
+    index.users.set(userId, vector);
+  }
+
+  // Similarity of `userId` to every user sharing at least MIN_CO_RATINGS movies with them.
+  // Only users reached through the inverted index are visited, so the cost grows with the
+  // number of ratings on the user's movies rather than with the whole user base.
+  // Every metric weights a rating by its age (see TimeDecay), so old tastes count for less.
+  static similarities(
+    index: RatingIndex,
+    userId: string,
+    metric: UserSimilarityMetric = METRIC
+  ): Map<string, UserSimilarity> {
+    const target = index.users.get(userId);
+    const similarities = new Map<string, UserSimilarity>();
+    if (!target) return similarities;
+
+    // Sums per pair of users, each co-rated movie weighted by w = wA·wB; `dot` is then
+    // also the dot product of the two decayed vectors
+    const sums = new Map<string, {
+      n: number; w: number; sumA: number; sumB: number; sumA2: number; sumB2: number; dot: number; coLiked: number;
+    }>();
+    target.ratings.forEach((ratingA, movieId) => {
+      const weightA = target.weights.get(movieId) ?? 1;
+      index.raters.get(movieId)?.forEach(otherId => {
+        if (otherId === userId) return;
+        const other = index.users.get(otherId);
+        const ratingB = other?.ratings.get(movieId);
+        if (!other || ratingB === undefined) return;
+        const weightB = other.weights.get(movieId) ?? 1;
+        const w = weightA * weightB;
+
+        const s = sums.get(otherId) || { n: 0, w: 0, sumA: 0, sumB: 0, sumA2: 0, sumB2: 0, dot: 0, coLiked: 0 };
+        s.n++;
+        s.w += w;
+        s.sumA += w * ratingA;
+        s.sumB += w * ratingB;
+        s.sumA2 += w * ratingA * ratingA;
+        s.sumB2 += w * ratingB * ratingB;
+        s.dot += w * ratingA * ratingB;
+        if (target.liked.has(movieId) && other.liked.has(movieId)) s.coLiked += Math.min(weightA, weightB);
+        sums.set(otherId, s);
+      });
+    });
+
+    sums.forEach((s, otherId) => {
+      if (s.n < MIN_CO_RATINGS) return;
+      const other = index.users.get(otherId) as UserVector;
+
+      let score = 0;
+      switch (metric) {
+        case 'cosine': {
+          // Over the full decayed vectors: movies only one of them rated count as 0
+          const den = target.norm * other.norm;
+          score = den === 0 ? 0 : s.dot / den;
+          break;
+        }
+        case 'jaccard': {
+          // Overlap of the sets of liked movies, each movie counted by its weight
+          const union = target.likedWeight + other.likedWeight - s.coLiked;
+          score = union === 0 ? 0 : s.coLiked / union;
+          break;
+        }
+        case 'pearson':
+        default: {
+          // Weighted correlation over the co-rated movies only
+          if (s.w === 0) break;
+          const num = s.dot - (s.sumA * s.sumB / s.w);
+          const den = Math.sqrt((s.sumA2 - s.sumA * s.sumA / s.w) * (s.sumB2 - s.sumB * s.sumB / s.w));
+          score = den === 0 ? 0 : num / den;
+          break;
+        }
+      }
+      similarities.set(otherId, { score, coRatings: s.n });
+    });
+
+    return similarities;
+  }
+
+  // The K most similar users above the metric's threshold
+  static topNeighbours(
+    userId: string,
+    similarities: Map<string, UserSimilarity>,
+    metric: UserSimilarityMetric = METRIC,
+    neighbours = DEFAULT_NEIGHBOURS
+  ): Omit<UserNeighbour, 'updatedAt'>[] {
+    return Array.from(similarities.entries())
+      .filter(([, similarity]) => similarity.score >= MIN_SIMILARITY[metric])
+      .sort((a, b) => b[1].score - a[1].score)
+      .slice(0, neighbours)
+      .map(([neighbourId, similarity]) => ({ userId, neighbourId, metric, ...similarity }));
+  }
+
+  static async getIndex(source: RecommendationSource = liveSource()): Promise<RatingIndex> {
+    if (!isLiveSource(source)) return this.buildIndex(await source.data.getAllRatings(), source.now);
+    if (!this.index || Date.now() - this.loadedAt > INDEX_RELOAD_INTERVAL) {
+      this.index = this.buildIndex(await db.getAllRatings());
+      this.loadedAt = Date.now();
+    }
+    return this.index;
+  }
+
+  // Stored neighbours of a user; computed and stored on first use
+  static async getNeighbours(userId: string, source: RecommendationSource = liveSource()): Promise<UserNeighbour[]> {
+    const stored = await source.data.getUserNeighbours(userId, METRIC);
+    if (stored.length > 0) return stored;
+
+    const index = await this.getIndex(source);
+    const neighbours = this.topNeighbours(userId, this.similarities(index, userId));
+    if (neighbours.length > 0) {
+      await source.data.replaceUserNeighbours(userId, neighbours);
+    }
+    return neighbours;
+  }
+
+  // Recompute the whole neighbour table from the ratings and persist it
+  static async rebuild(neighbours = DEFAULT_NEIGHBOURS): Promise<{ users: number; pairs: number }> {
+    const index = this.buildIndex(await db.getAllRatings());
+    const all: Omit<UserNeighbour, 'updatedAt'>[] = [];
+    index.users.forEach((_, userId) => {
+      all.push(...this.topNeighbours(userId, this.similarities(index, userId), METRIC, neighbours));
+    });
+
+    await db.replaceAllUserNeighbours(all);
+    this.index = index;
+    this.loadedAt = Date.now();
+    return { users: index.users.size, pairs: all.length };
+  }
+
+  // Incremental update after a user's ratings changed: their own list is recomputed,
+  // and their score is updated (or dropped) in the lists that already include them.
+  // Users who should newly list them pick them up on the next rebuild.
+  static async refreshUser(userId: string): Promise<number> {
+    const index = await this.getIndex();
+    this.setUserRatings(index, userId, await db.getUserRatings(userId));
+
+    const similarities = this.similarities(index, userId);
+    const neighbours = this.topNeighbours(userId, similarities);
+    await db.replaceUserNeighbours(userId, neighbours);
+
+    const updates: Array<{ userId: string; score: number; coRatings: number }> = [];
+    const removed: string[] = [];
+    (await db.getNeighbourListings(userId)).forEach(listing => {
+      const similarity = similarities.get(listing.userId);
+      if (listing.metric === METRIC && similarity && similarity.score >= MIN_SIMILARITY[METRIC]) {
+        updates.push({ userId: listing.userId, ...similarity });
+      } else {
+        removed.push(listing.userId);
+      }
+    });
+    if (updates.length > 0 || removed.length > 0) {
+      await db.updateNeighbourListings(userId, updates, removed);
+    }
+    return neighbours.length;
+  }
+}
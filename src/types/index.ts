@@ -1,3 +1,5 @@
+import type { RecommendationSource } from '../services/recommendationSource';
+
 export interface Movie {
   id: string;
   title: string;
@@ -46,12 +48,120 @@ export interface Rating {
   updatedAt?: Date;
 }
 
+export interface MovieSimilarity {
+  movieId: string;
+  similarMovieId: string;
+  score: number; // -1 to 1 (adjusted cosine)
+  coRatings: number;
+  updatedAt?: Date;
+}
+
+// How the similarity of two users' ratings is measured
+export type UserSimilarityMetric = 'pearson' | 'cosine' | 'jaccard';
+
+export interface UserNeighbour {
+  userId: string;
+  neighbourId: string;
+  metric: UserSimilarityMetric;
+  score: number;
+  coRatings: number; // movies both users rated
+  updatedAt?: Date;
+}
+
+export interface MovieTextVector {
+  movieId: string;
+  terms: Record<string, number>; // term frequencies
+  length: number;
+  updatedAt?: Date;
+}
+
+export interface MovieEmbedding {
+  movieId: string;
+  model: string; // embedding provider name, e.g. "openai:text-embedding-3-small"
+  dimensions: number;
+  vector: number[];
+  updatedAt?: Date;
+}
+
+export interface MovieScore {
+  movieId: string;
+  popularity: number; // 0-1, Bayesian-averaged rating weighted by all-time activity
+  trending: number; // 0-1, time-decayed recent activity
+  bayesianRating: number; // 1-5, pulled towards the global mean for movies with few ratings
+  ratingCount: number;
+  watchlistCount: number;
+  updatedAt?: Date;
+}
+
+// Stored as Prisma Json: a type alias, unlike an interface, is assignable to Json input
+export type LatentFactors = {
+  bias: number;
+  vector: number[];
+};
+
+export interface FactorModel {
+  id: string;
+  factors: number;
+  globalMean: number;
+  rmse: number;
+  userFactors: Record<string, LatentFactors>;
+  movieFactors: Record<string, LatentFactors>;
+  createdAt: Date;
+}
+
+// A user's expected star rating of a movie, from RatingPredictor
+export interface RatingPrediction {
+  movieId: string;
+  rating: number; // 1-5 stars
+  confidence: number; // 0-1, grows with the ratings supporting the prediction
+}
+
 export interface Recommendation {
   movie: Movie;
   score: number;
   reason: string;
+  explanation: RecommendationExplanation;
 }
 
+// Which part of the system produced (part of) a recommendation score
+export type RecommendationSignalSource =
+  | 'collaborative'
+  | 'content'
+  | 'text'
+  | 'embedding'
+  | 'item'
+  | 'mf'
+  | 'ai'
+  | 'popularity'
+  | 'preferences'
+  | 'prediction'
+  | 'dislikes'
+  | 'implicit';
+
+export type RecommendationSignal = {
+  source: RecommendationSignalSource;
+  weight: number; // share of the final score given to this signal
+  score: number;  // the signal's own score before weighting
+};
+
+export type ExplanationSeedMovie = {
+  id: string;
+  title: string;
+  rating?: number; // the user's rating, when the seed is a rated movie
+};
+
+// Machine-readable counterpart of `reason`, for rendering and localizing in clients.
+// Declared with type aliases so stored recommendations can keep it in a Json column.
+export type RecommendationExplanation = {
+  algorithm: string;
+  signals: RecommendationSignal[];
+  seedMovies: ExplanationSeedMovie[];
+  similarUsers: number;
+  matchedGenres: string[];
+  matchedDirector?: string;
+  dislikedMovies?: ExplanationSeedMovie[]; // disliked movies the recommendation resembles
+};
+
 import { Request } from 'express';
 
 export interface AuthRequest extends Request {
@@ -65,6 +175,154 @@ export interface WatchlistItem {
   priority: 'low' | 'medium' | 'high';
   notes?: string;
   addedAt: Date;
+  watchedAt?: Date;
+}
+
+export type FeedbackType = 'dismiss' | 'snooze' | 'not_interested';
+
+export interface RecommendationFeedback {
+  id: string;
+  userId: string;
+  type: FeedbackType;
+  movieId?: string;
+  genre?: string;
+  director?: string;
+  snoozedUntil?: Date;
+  createdAt: Date;
+}
+
+export type InteractionType = 'watchlist_add' | 'watchlist_remove' | 'view' | 'search_click';
+
+export interface InteractionEvent {
+  id: string;
+  userId: string;
+  movieId: string;
+  type: InteractionType;
+  query?: string; // search_click only
+  createdAt: Date;
+}
+
+export type BanditPolicy = 'off' | 'thompson' | 'epsilon_greedy';
+
+// What the user did with a movie from a bandit-chosen list
+export type BanditRewardSignal = 'liked_rating' | 'rating' | 'disliked_rating' | 'watchlist_add' | 'dismiss';
+
+export interface BanditArmStats {
+  arm: string;
+  pulls: number; // lists served
+  reward: number; // sum of the lists' rewards, each 0-1
+  users?: number; // users the totals come from
+}
+
+export interface BanditPull {
+  id: string;
+  userId: string;
+  arm: string;
+  movieIds: string[];
+  reward: number;
+  createdAt: Date;
+}
+
+export interface BanditArmSummary extends BanditArmStats {
+  available: boolean;
+  meanReward: number;
+  // The given user's own statistics and posterior mean (global prior included)
+  user?: { pulls: number; reward: number; expectedReward: number };
+}
+
+export type ImpressionConversion = 'rated' | 'watchlisted';
+
+export type ImpressionEventType = 'click' | ImpressionConversion;
+
+export interface RecommendationImpression {
+  id: string;
+  listId: string;
+  algorithm: string;
+  position: number; // 0-based
+  movieId: string;
+  userId?: string;
+  clickedAt?: Date;
+  convertedAt?: Date;
+  conversion?: ImpressionConversion;
+  createdAt: Date;
+}
+
+// Online quality of one algorithm's lists over a period
+export interface RecommendationQuality {
+  algorithm: string;
+  lists: number;
+  impressions: number;
+  clicks: number;
+  conversions: number;
+  ctr: number; // clicks per impression
+  conversionRate: number; // conversions per impression
+  mrr: number; // mean over lists of 1 / rank of the first clicked movie (0 when none was)
+}
+
+export type ContactStatus = 'pending' | 'accepted';
+
+// A contact as seen by one of its two users
+export interface Contact {
+  id: string;
+  userId: string; // the other user
+  username: string;
+  status: ContactStatus;
+  direction: 'sent' | 'received';
+  createdAt: Date;
+  acceptedAt?: Date;
+}
+
+export type VotingMethod = 'ranked' | 'approval';
+
+export type VotingSessionStatus = 'open' | 'closed';
+
+export type VotingCandidateSource = 'watchlist' | 'recommendation' | 'manual';
+
+export interface VotingCandidate {
+  movieId: string;
+  source: VotingCandidateSource;
+  position: number;
+}
+
+export interface VotingParticipant {
+  userId: string;
+  ballot?: string[]; // movie IDs, most preferred first for ranked sessions
+  votedAt?: Date;
+  joinedAt?: Date; // unset while the invite is pending
+}
+
+export type VotingResult = {
+  movieId: string;
+  votes: number;
+};
+
+// One instant-runoff round; approval voting has a single round
+export type VotingRound = {
+  results: VotingResult[];
+  eliminated?: string;
+};
+
+// Kept as type aliases so the tally can be written to the Json column as is
+export type VotingTally = {
+  method: VotingMethod;
+  ballots: number;
+  winnerMovieId: string | null;
+  results: VotingResult[]; // final round, most votes first
+  rounds: VotingRound[];
+};
+
+export interface VotingSession {
+  id: string;
+  title: string;
+  hostId: string;
+  method: VotingMethod;
+  status: VotingSessionStatus;
+  candidates: VotingCandidate[];
+  participants: VotingParticipant[];
+  winnerMovieId?: string;
+  tally?: VotingTally;
+  closedAt?: Date;
+  createdAt: Date;
 }
 
 export interface UserStats {
@@ -81,6 +339,102 @@ export interface RecommendationRequest {
   excludeWatched?: boolean;
   minYear?: number;
   maxYear?: number;
+  diversity?: number;
+  // Viewing context
+  maxRuntime?: number; // minutes available
+  mood?: string; // key of the mood table
+  era?: string; // "1990s", "90s", "classic", "modern" or "recent"
+  language?: string[]; // English names or ISO 639-1 codes
+  recentTaste?: boolean; // build the taste profile from the latest ratings only
+}
+
+export type RecommendationFilters = Omit<RecommendationRequest, 'limit' | 'diversity'>;
+
+export interface MoodProfile {
+  genres: string[];
+  keywords: string[]; // matched against descriptions
+}
+
+// How members' predicted ratings are combined into one group score
+export type GroupStrategy = 'least_misery' | 'average' | 'most_pleasure';
+
+export interface GroupMemberPrediction {
+  userId: string;
+  username: string;
+  predictedRating: number; // 1-5 stars
+  confidence: number; // 0-1
+  onWatchlist: boolean;
+}
+
+// Members are the requester and their accepted contacts, who agreed to share predictions
+export interface GroupRecommendation extends Recommendation {
+  members: GroupMemberPrediction[];
+}
+
+// A user's precomputed list for one algorithm
+export interface StoredRecommendations {
+  userId: string;
+  algorithm: string;
+  computedAt: Date;
+  recommendations: Recommendation[];
+}
+
+// Where a served recommendation list came from and when it was computed
+export interface RecommendationFreshness {
+  source: 'precomputed' | 'live';
+  computedAt: Date;
+}
+
+// A recommendation strategy that can be looked up by name and blended into hybrid
+export interface Recommender {
+  name: string;
+  label: string; // how the strategy is named in blended reasons, e.g. "collaborative filtering"
+  usesPreferences: boolean; // scores already include the user's stated preferences
+  isAvailable?(source?: RecommendationSource): Promise<boolean>; // false while the strategy has no trained model or index
+  recommend(
+    userId: string,
+    allMovies: Movie[],
+    limit: number,
+    filters: RecommendationFilters,
+    source?: RecommendationSource // the live database and current time when omitted
+  ): Promise<Recommendation[]>;
+}
+
+// Blend weight per registered strategy name, e.g. { collaborative: 0.6, content: 0.4 }
+export type HybridWeights = Record<string, number>;
+
+// How each strategy's scores are rescaled before blending
+export type HybridNormalization = 'none' | 'max' | 'minmax' | 'rank';
+
+export interface HybridConfig {
+  weights: HybridWeights;
+  normalization: HybridNormalization;
+}
+
+export interface ExperimentVariant {
+  name: string;
+  algorithm: string;
+  allocation: number; // share of traffic, relative to the other variants
+  weights?: HybridWeights;
+  normalization?: HybridNormalization;
+}
+
+export interface Experiment {
+  name: string;
+  active: boolean;
+  variants: ExperimentVariant[];
+}
+
+export interface ExperimentAssignment {
+  experiment: string;
+  variant: ExperimentVariant;
+}
+
+export interface ExperimentVariantSummary {
+  variant: string;
+  algorithm: string;
+  exposures: number;
+  users: number;
 }
 
 export interface PaginatedResponse<T> {
@@ -98,4 +452,10 @@ export interface ApiResponse<T = any> {
   data?: T;
   message?: string;
   error?: string;
-}
\ No newline at end of file
+}
+
+// A served recommendation list; clients report clicks with its `listId`, which is
+// missing when the list could not be logged
+export interface RecommendationListResponse<T> extends ApiResponse<T[]> {
+  listId?: string;
+}